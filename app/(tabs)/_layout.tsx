@@ -3,8 +3,12 @@ import React from 'react';
 
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useRealtimePilgrims } from '@/src/hooks/usePilgrims';
 
 export default function TabLayout() {
+  // The tabs stay mounted under every signed-in screen
+  useRealtimePilgrims();
+
   return (
     <Tabs
       screenOptions={{
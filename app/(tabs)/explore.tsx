@@ -15,18 +15,31 @@ import { PilgrimCard } from '@/src/components/pilgrim/PilgrimCard';
 import { ActionButton } from '@/src/components/ui/ActionButton';
 import { Card } from '@/src/components/ui/Card';
 import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
-import { usePilgrims, useRefreshPilgrims } from '@/src/hooks/usePilgrims';
-import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
-import { Pilgrim } from '@/src/types';
+import { useAuth } from '@/src/hooks/useAuth';
+import { useBuses } from '@/src/hooks/useBuses';
+import { useBulkUpdatePilgrimStatus, usePilgrims, useRefreshPilgrims } from '@/src/hooks/usePilgrims';
+import { ARABIC_TEXTS, ERROR_MESSAGES, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage, toServiceError } from '@/src/services/errors';
+import { useAppStore } from '@/src/store';
+import { BulkStatusResult, Pilgrim } from '@/src/types';
+
+// Failed records listed by name before the rest are summed up
+const MAX_LISTED_FAILURES = 10;
 
 export default function PilgrimsListScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'onboard' | 'offboard'>('all');
+  const [busFilter, setBusFilter] = useState<string>('all');
   const [refreshing, setRefreshing] = useState(false);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Hooks
   const { data: pilgrims, isLoading, error } = usePilgrims();
+  const { data: buses } = useBuses();
   const refreshPilgrims = useRefreshPilgrims();
+  const bulkUpdateStatus = useBulkUpdatePilgrimStatus();
+  const { can } = useAuth();
 
   // Filter and search pilgrims
   const filteredPilgrims = useMemo(() => {
@@ -39,6 +52,11 @@ export default function PilgrimsListScreen() {
       filtered = filtered.filter(pilgrim => pilgrim.status === statusFilter);
     }
 
+    // Apply bus filter
+    if (busFilter !== 'all') {
+      filtered = filtered.filter(pilgrim => pilgrim.bus === busFilter);
+    }
+
     // Apply search query
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
@@ -51,7 +69,7 @@ export default function PilgrimsListScreen() {
 
     // Sort by name
     return filtered.sort((a, b) => a.full_name.localeCompare(b.full_name, 'ar'));
-  }, [pilgrims, statusFilter, searchQuery]);
+  }, [pilgrims, statusFilter, busFilter, searchQuery]);
 
   // Statistics
   const stats = useMemo(() => {
@@ -78,12 +96,102 @@ export default function PilgrimsListScreen() {
   };
 
   const handlePilgrimPress = (pilgrim: Pilgrim) => {
+    if (selectionMode) {
+      toggleSelected(pilgrim.id);
+      return;
+    }
+
     router.push({ 
       pathname: '/modal', 
       params: { pilgrimId: pilgrim.id } 
     });
   };
 
+  // Bulk selection
+  const toggleSelected = (pilgrimId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(pilgrimId)) {
+        next.delete(pilgrimId);
+      } else {
+        next.add(pilgrimId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectionMode = () => {
+    setSelectionMode((current) => !current);
+    setSelectedIds(new Set());
+  };
+
+  const reportBulkResult = (result: BulkStatusResult, requested: Pilgrim[]) => {
+    if (result.failed.length === 0) {
+      Alert.alert('نجح', ARABIC_TEXTS.SUCCESS_BULK_STATUS);
+      setSelectionMode(false);
+      setSelectedIds(new Set());
+      return;
+    }
+
+    const names = new Map(requested.map((pilgrim) => [pilgrim.id, pilgrim.full_name]));
+    const lines = result.failed
+      .slice(0, MAX_LISTED_FAILURES)
+      .map(({ pilgrimId, error }) => `${names.get(pilgrimId) ?? pilgrimId}: ${ERROR_MESSAGES[error]}`);
+    if (result.failed.length > MAX_LISTED_FAILURES) {
+      const remaining = result.failed.length - MAX_LISTED_FAILURES;
+      lines.push(`${ARABIC_TEXTS.BULK_MORE_FAILURES} (${toArabicNumbers(remaining.toString())})`);
+    }
+
+    Alert.alert(
+      ARABIC_TEXTS.BULK_PARTIAL_FAILURE,
+      `${ARABIC_TEXTS.BULK_UPDATED_COUNT}: ${toArabicNumbers(result.updated.length.toString())} / ${toArabicNumbers(requested.length.toString())}\n\n${lines.join('\n')}`
+    );
+
+    // Keep the failed ones selected so they can be tried again
+    setSelectedIds(new Set(result.failed.map((failure) => failure.pilgrimId)));
+  };
+
+  const handleBulkStatus = (status: 'onboard' | 'offboard') => {
+    const selected = (pilgrims || []).filter((pilgrim) => selectedIds.has(pilgrim.id));
+    const toChange = selected.filter((pilgrim) => pilgrim.status !== status);
+    const skipped = selected.length - toChange.length;
+
+    if (toChange.length === 0) {
+      Alert.alert(ARABIC_TEXTS.CONFIRM_BULK_STATUS, ARABIC_TEXTS.BULK_NOTHING_TO_CHANGE);
+      return;
+    }
+
+    const statusLabel = status === 'onboard' ? ARABIC_TEXTS.ONBOARD : ARABIC_TEXTS.OFFBOARD;
+    let summary = `${ARABIC_TEXTS.BULK_SUMMARY} "${statusLabel}": ${toArabicNumbers(toChange.length.toString())}`;
+    if (skipped > 0) {
+      summary += `\n${toArabicNumbers(skipped.toString())} ${ARABIC_TEXTS.BULK_SKIPPED}`;
+    }
+
+    Alert.alert(ARABIC_TEXTS.CONFIRM_BULK_STATUS, summary, [
+      { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+      {
+        text: 'تأكيد',
+        onPress: async () => {
+          try {
+            // The active leg's boardings change with the status, as a scan
+            // would - each pilgrim's audit entry is written along with it
+            const { activeLegId, activeBusId } = useAppStore.getState();
+            const result = await bulkUpdateStatus.mutateAsync({
+              ids: toChange.map((pilgrim) => pilgrim.id),
+              status,
+              legId: activeLegId || undefined,
+              busId: activeBusId || undefined,
+            });
+
+            reportBulkResult(result, toChange);
+          } catch (error) {
+            Alert.alert('خطأ', getErrorMessage(error));
+          }
+        },
+      },
+    ]);
+  };
+
   const renderFilterButton = (
     filter: 'all' | 'onboard' | 'offboard',
     label: string,
@@ -102,6 +210,7 @@ export default function PilgrimsListScreen() {
       pilgrim={item}
       onPress={handlePilgrimPress}
       compact
+      selected={selectionMode && selectedIds.has(item.id)}
     />
   );
 
@@ -166,6 +275,46 @@ export default function PilgrimsListScreen() {
         {renderFilterButton('offboard', ARABIC_TEXTS.FILTER_OFFBOARD, stats.offboard)}
       </View>
 
+      {/* Bus Filter */}
+      {!!buses?.length && (
+        <View style={styles.filtersContainer}>
+          <ActionButton
+            title={ARABIC_TEXTS.ALL_BUSES}
+            onPress={() => setBusFilter('all')}
+            variant={busFilter === 'all' ? 'primary' : 'secondary'}
+            size="sm"
+          />
+          {buses.map((bus) => (
+            <ActionButton
+              key={bus.id}
+              title={`${ARABIC_TEXTS.BUS} ${toArabicNumbers(bus.number)}`}
+              onPress={() => setBusFilter(bus.id)}
+              variant={busFilter === bus.id ? 'primary' : 'secondary'}
+              size="sm"
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.filtersContainer}>
+        {can('edit_pilgrim') && (
+          <ActionButton
+            title={ARABIC_TEXTS.ADD_PILGRIM}
+            onPress={() => router.push('/pilgrim-form')}
+            variant="primary"
+            size="sm"
+          />
+        )}
+        {can('bulk_update') && (
+          <ActionButton
+            title={selectionMode ? ARABIC_TEXTS.CANCEL_SELECTION : ARABIC_TEXTS.SELECT_MULTIPLE}
+            onPress={toggleSelectionMode}
+            variant="secondary"
+            size="sm"
+          />
+        )}
+      </View>
+
       {/* Results Count */}
       <Text style={styles.resultsCount}>
         {toArabicNumbers(filteredPilgrims.length.toString())} نتيجة
@@ -181,13 +330,15 @@ export default function PilgrimsListScreen() {
     return (
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>
-          {error.message || 'حدث خطأ في تحميل البيانات'}
+          {getErrorMessage(error)}
         </Text>
-        <ActionButton
-          title={ARABIC_TEXTS.RETRY}
-          onPress={handleRefresh}
-          variant="primary"
-        />
+        {toServiceError(error).retryable && (
+          <ActionButton
+            title={ARABIC_TEXTS.RETRY}
+            onPress={handleRefresh}
+            variant="primary"
+          />
+        )}
       </View>
     );
   }
@@ -212,6 +363,46 @@ export default function PilgrimsListScreen() {
         }
         ItemSeparatorComponent={() => <View style={styles.separator} />}
       />
+
+      {/* Bulk Actions */}
+      {selectionMode && (
+        <View style={styles.bulkBar}>
+          <Text style={styles.bulkCount}>
+            {toArabicNumbers(selectedIds.size.toString())} {ARABIC_TEXTS.SELECTED_COUNT}
+          </Text>
+          <View style={styles.bulkActions}>
+            <ActionButton
+              title={ARABIC_TEXTS.SELECT_ALL}
+              onPress={() => setSelectedIds(new Set(filteredPilgrims.map((pilgrim) => pilgrim.id)))}
+              variant="secondary"
+              size="sm"
+            />
+            <ActionButton
+              title={ARABIC_TEXTS.CLEAR_SELECTION}
+              onPress={() => setSelectedIds(new Set())}
+              variant="secondary"
+              size="sm"
+              disabled={selectedIds.size === 0}
+            />
+            <ActionButton
+              title={ARABIC_TEXTS.BULK_SET_ONBOARD}
+              onPress={() => handleBulkStatus('onboard')}
+              variant="success"
+              size="sm"
+              disabled={selectedIds.size === 0}
+              loading={bulkUpdateStatus.isPending}
+            />
+            <ActionButton
+              title={ARABIC_TEXTS.BULK_SET_OFFBOARD}
+              onPress={() => handleBulkStatus('offboard')}
+              variant="danger"
+              size="sm"
+              disabled={selectedIds.size === 0}
+              loading={bulkUpdateStatus.isPending}
+            />
+          </View>
+        </View>
+      )}
     </View>
   );
 }
@@ -277,6 +468,24 @@ const styles = StyleSheet.create({
   separator: {
     height: 12,
   },
+  bulkBar: {
+    padding: 16,
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  bulkCount: {
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
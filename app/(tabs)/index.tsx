@@ -8,22 +8,60 @@ import { ActionButton } from '@/src/components/ui/ActionButton';
 import { Card } from '@/src/components/ui/Card';
 import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
 import { StatusBadge } from '@/src/components/ui/StatusBadge';
+import { useAuth } from '@/src/hooks/useAuth';
 import useNFC from '@/src/hooks/useNFC';
 import { usePilgrims, usePilgrimsStats } from '@/src/hooks/usePilgrims';
+import { useActiveLeg, useLegStats } from '@/src/hooks/useTrips';
+import { useBus, useBuses } from '@/src/hooks/useBuses';
 import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
 import useAppStore from '@/src/store';
+import { StatsBreakdownEntry, StatsDimension } from '@/src/types';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+const BREAKDOWN_DIMENSIONS: StatsDimension[] = ['bus', 'nationality', 'sex'];
+
 export default function HomeScreen() {
   const [refreshing, setRefreshing] = useState(false);
   
   // Hooks
   const { data: pilgrims, isLoading: pilgrimsLoading, refetch: refetchPilgrims } = usePilgrims();
-  const { data: stats, isLoading: statsLoading, refetch: refetchStats } = usePilgrimsStats();
+  const { data: globalStats, isLoading: statsLoading, refetch: refetchStats } = usePilgrimsStats();
   const { isSupported: nfcSupported, isEnabled: nfcEnabled, checkStatus } = useNFC();
   
   // Store
-  const { startSession, sessionStats } = useAppStore();
+  const { startSession, sessionStats, activeLegId, activeBusId } = useAppStore();
+  const { can } = useAuth();
+
+  // Stats follow the leg and bus being scanned once they are selected
+  const { data: activeLeg } = useActiveLeg();
+  const { data: activeBus } = useBus(activeBusId || '');
+  const { data: buses } = useBuses();
+  const { data: legStats, refetch: refetchLegStats } = useLegStats(
+    activeLegId || '',
+    activeBusId || undefined
+  );
+  const stats = activeLegId ? legStats : globalStats;
+
+  // Boardings are recorded per leg and bus, so scanning needs both selected
+  const ensureScanScope = () => {
+    if (!activeLegId) {
+      Alert.alert('خطأ', ARABIC_TEXTS.ERROR_NO_ACTIVE_LEG, [
+        { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+        { text: ARABIC_TEXTS.SELECT_LEG, onPress: () => router.push('/trips') },
+      ]);
+      return false;
+    }
+
+    if (!activeBusId) {
+      Alert.alert('خطأ', ARABIC_TEXTS.ERROR_NO_ACTIVE_BUS, [
+        { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+        { text: ARABIC_TEXTS.SELECT_BUS, onPress: () => router.push('/buses') },
+      ]);
+      return false;
+    }
+
+    return true;
+  };
 
   // Handlers
   const handleStartOnboard = async () => {
@@ -37,9 +75,13 @@ export default function HomeScreen() {
       return;
     }
 
+    if (!ensureScanScope()) {
+      return;
+    }
+
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     startSession('onboard');
-    router.push({ pathname: '/scanner', params: { mode: 'onboard' } });
+    router.push({ pathname: '/scanner', params: { mode: 'onboard', legId: activeLegId, busId: activeBusId } });
   };
 
   const handleStartOffboard = async () => {
@@ -53,9 +95,18 @@ export default function HomeScreen() {
       return;
     }
 
+    if (!ensureScanScope()) {
+      return;
+    }
+
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     startSession('offboard');
-    router.push({ pathname: '/scanner', params: { mode: 'offboard' } });
+    router.push({ pathname: '/scanner', params: { mode: 'offboard', legId: activeLegId, busId: activeBusId } });
+  };
+
+  const handleEnrollCard = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/enroll');
   };
 
   const handleViewPilgrims = async () => {
@@ -63,12 +114,38 @@ export default function HomeScreen() {
     router.push('/(tabs)/explore');
   };
 
+  const handleVerifyCards = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/verify');
+  };
+
+  const handleFoundPilgrim = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/found');
+  };
+
+  const handleSelectLeg = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/trips');
+  };
+
+  const handleSelectBus = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/buses');
+  };
+
+  const handleOpenSettings = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/settings');
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     try {
       await Promise.all([
         refetchPilgrims(),
         refetchStats(),
+        activeLegId ? refetchLegStats() : Promise.resolve(),
         checkStatus(),
       ]);
     } catch (error) {
@@ -110,6 +187,37 @@ export default function HomeScreen() {
     },
   ];
 
+  // Breakdown values are raw field values - buses by ID, sex by code
+  const formatBreakdownValue = (dimension: StatsDimension, value: string) => {
+    if (!value) {
+      return dimension === 'bus' ? ARABIC_TEXTS.UNASSIGNED : ARABIC_TEXTS.NOT_PROVIDED;
+    }
+    if (dimension === 'bus') {
+      const bus = buses?.find((entry) => entry.id === value);
+      return bus ? `${ARABIC_TEXTS.BUS} ${toArabicNumbers(bus.number)}` : ARABIC_TEXTS.UNKNOWN;
+    }
+    if (dimension === 'sex') {
+      return value === 'male' ? ARABIC_TEXTS.MALE : ARABIC_TEXTS.FEMALE;
+    }
+    return value;
+  };
+
+  const renderBreakdown = (dimension: StatsDimension, entries: StatsBreakdownEntry[]) => (
+    <Card key={dimension} style={styles.breakdownCard}>
+      <Text style={styles.breakdownTitle}>{ARABIC_TEXTS.BREAKDOWN_TITLES[dimension]}</Text>
+      {entries.map((entry) => (
+        <View key={entry.value} style={styles.breakdownRow}>
+          <Text style={styles.breakdownLabel} numberOfLines={1}>
+            {formatBreakdownValue(dimension, entry.value)}
+          </Text>
+          <Text style={styles.breakdownValue}>
+            {toArabicNumbers(`${entry.onboard} / ${entry.total}`)}
+          </Text>
+        </View>
+      ))}
+    </Card>
+  );
+
   if (pilgrimsLoading || statsLoading) {
     return <LoadingSpinner text={ARABIC_TEXTS.LOADING} />;
   }
@@ -146,11 +254,49 @@ export default function HomeScreen() {
             backgroundColor: nfcSupported && nfcEnabled ? '#10B981' : '#EF4444' 
           }]} />
           <Text style={styles.statusText}>
-            NFC {nfcSupported && nfcEnabled ? 'جاهز' : 'غير متاح'}
+            NFC {nfcEnabled ? 'جاهز' : nfcSupported ? 'غير مفعل' : 'غير متاح'}
           </Text>
         </View>
       </Card>
 
+      {/* Active Trip Leg */}
+      <Card style={styles.legCard}>
+        <View style={styles.legContent}>
+          <View style={styles.legInfo}>
+            <Text style={styles.legLabel}>{ARABIC_TEXTS.ACTIVE_LEG}</Text>
+            <Text style={styles.legName} numberOfLines={1}>
+              {activeLeg?.name || ARABIC_TEXTS.NO_ACTIVE_LEG}
+            </Text>
+          </View>
+          <ActionButton
+            title={ARABIC_TEXTS.CHANGE_LEG}
+            onPress={handleSelectLeg}
+            variant="secondary"
+            size="sm"
+          />
+        </View>
+      </Card>
+
+      {/* Active Bus */}
+      <Card style={styles.legCard}>
+        <View style={styles.legContent}>
+          <View style={styles.legInfo}>
+            <Text style={styles.legLabel}>{ARABIC_TEXTS.ACTIVE_BUS}</Text>
+            <Text style={styles.legName} numberOfLines={1}>
+              {activeBus
+                ? `${ARABIC_TEXTS.BUS} ${toArabicNumbers(activeBus.number)}`
+                : ARABIC_TEXTS.NO_ACTIVE_BUS}
+            </Text>
+          </View>
+          <ActionButton
+            title={ARABIC_TEXTS.CHANGE_BUS}
+            onPress={handleSelectBus}
+            variant="secondary"
+            size="sm"
+          />
+        </View>
+      </Card>
+
       {/* Main Action Buttons */}
       <View style={styles.actionsContainer}>
         <ActionButton
@@ -171,6 +317,26 @@ export default function HomeScreen() {
           disabled={!nfcSupported || !nfcEnabled}
         />
         
+        {can('manage_cards') && (
+          <ActionButton
+            title={ARABIC_TEXTS.ENROLL_CARD}
+            onPress={handleEnrollCard}
+            variant="secondary"
+            size="md"
+            fullWidth
+            disabled={!nfcSupported || !nfcEnabled}
+          />
+        )}
+        
+        <ActionButton
+          title={ARABIC_TEXTS.VERIFY_CARDS}
+          onPress={handleVerifyCards}
+          variant="secondary"
+          size="md"
+          fullWidth
+          disabled={!nfcSupported || !nfcEnabled}
+        />
+        
         <ActionButton
           title={ARABIC_TEXTS.VIEW_PILGRIMS}
           onPress={handleViewPilgrims}
@@ -178,11 +344,32 @@ export default function HomeScreen() {
           size="md"
           fullWidth
         />
+        
+        <ActionButton
+          title={ARABIC_TEXTS.FOUND_PILGRIM}
+          onPress={handleFoundPilgrim}
+          variant="warning"
+          size="md"
+          fullWidth
+          disabled={!nfcSupported || !nfcEnabled}
+        />
+        
+        <ActionButton
+          title={ARABIC_TEXTS.SETTINGS}
+          onPress={handleOpenSettings}
+          variant="secondary"
+          size="md"
+          fullWidth
+        />
       </View>
 
       {/* Statistics */}
       <View style={styles.statsSection}>
-        <Text style={styles.sectionTitle}>إحصائيات عامة</Text>
+        <Text style={styles.sectionTitle}>
+          {activeLeg
+            ? `${activeLeg.name}${activeBus ? ` - ${ARABIC_TEXTS.BUS} ${toArabicNumbers(activeBus.number)}` : ''}`
+            : 'إحصائيات عامة'}
+        </Text>
         <View style={styles.statsGrid}>
           {statsData.map((stat, index) => (
             <Card key={index} style={styles.statCard}>
@@ -195,6 +382,18 @@ export default function HomeScreen() {
         </View>
       </View>
 
+      {/* Roster Breakdowns */}
+      {globalStats && BREAKDOWN_DIMENSIONS.some((dimension) => globalStats.breakdowns[dimension].length > 0) && (
+        <View style={styles.statsSection}>
+          <Text style={styles.sectionTitle}>{ARABIC_TEXTS.STATS_BREAKDOWN}</Text>
+          <View style={styles.breakdownList}>
+            {BREAKDOWN_DIMENSIONS
+              .filter((dimension) => globalStats.breakdowns[dimension].length > 0)
+              .map((dimension) => renderBreakdown(dimension, globalStats.breakdowns[dimension]))}
+          </View>
+        </View>
+      )}
+
       {/* Current Session Stats */}
       {(sessionStats.totalScanned > 0) && (
         <View style={styles.statsSection}>
@@ -275,6 +474,29 @@ const styles = StyleSheet.create({
   statusCard: {
     marginBottom: 20,
   },
+  legCard: {
+    marginBottom: 20,
+  },
+  legContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  legInfo: {
+    flex: 1,
+  },
+  legLabel: {
+    fontSize: 12,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  legName: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
   statusContent: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -329,6 +551,37 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     writingDirection: 'rtl',
   },
+  breakdownList: {
+    gap: 12,
+  },
+  breakdownCard: {
+    padding: 16,
+    gap: 6,
+  },
+  breakdownTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  breakdownLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#374151',
+    writingDirection: 'rtl',
+  },
+  breakdownValue: {
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#10B981',
+  },
   recentSection: {
     marginBottom: 20,
   },
@@ -9,6 +9,8 @@ import * as SplashScreen from 'expo-splash-screen';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { toServiceError } from '@/src/services/errors';
+import { useAppStore } from '@/src/store';
 
 // Configure RTL
 I18nManager.allowRTL(true);
@@ -23,11 +25,12 @@ const queryClient = new QueryClient({
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutes
       gcTime: 10 * 60 * 1000, // 10 minutes
-      retry: 2,
+      // A revoked card or a missing permission gives the same answer twice
+      retry: (failureCount, error) => toServiceError(error).retryable && failureCount < 2,
       refetchOnWindowFocus: false,
     },
     mutations: {
-      retry: 1,
+      retry: (failureCount, error) => toServiceError(error).retryable && failureCount < 1,
     },
   },
 });
@@ -65,6 +68,13 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const isAuthenticated = useAppStore((state) => !!state.auth);
+  const refreshAuth = useAppStore((state) => state.refreshAuth);
+
+  // Renew the saved session once per app start
+  useEffect(() => {
+    refreshAuth();
+  }, [refreshAuth]);
 
   // Load Cairo fonts
   const [fontsLoaded] = useFonts({
@@ -100,25 +110,131 @@ export default function RootLayout() {
           },
           headerTitleAlign: 'center',
         }}>
+          <Stack.Protected guard={isAuthenticated}>
+            <Stack.Screen 
+              name="(tabs)" 
+              options={{ headerShown: false }} 
+            />
+            <Stack.Screen 
+              name="modal" 
+              options={{ 
+                presentation: 'modal', 
+                title: 'تفاصيل الحاج',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="scanner" 
+              options={{ 
+                title: 'مسح NFC',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="enroll" 
+              options={{ 
+                title: 'تسجيل رقاقة',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="settings" 
+              options={{ 
+                title: 'الإعدادات',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="trips" 
+              options={{ 
+                title: 'الرحلات',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="buses" 
+              options={{ 
+                title: 'الحافلات',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="verify" 
+              options={{ 
+                title: 'التحقق من الرقاقات',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="diagnostics" 
+              options={{ 
+                title: 'تشخيص الرقاقة',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+            <Stack.Screen 
+              name="pilgrim-form" 
+              options={{ 
+                title: 'بيانات الحاج',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+          </Stack.Protected>
+          <Stack.Protected guard={!isAuthenticated}>
+            <Stack.Screen 
+              name="login" 
+              options={{ 
+                title: 'تسجيل الدخول',
+                headerStyle: {
+                  backgroundColor: theme.colors.primary,
+                },
+                headerTintColor: '#FFFFFF',
+              }} 
+            />
+          </Stack.Protected>
+          {/* Reachable signed out - operators pick the server before signing in */}
           <Stack.Screen 
-            name="(tabs)" 
-            options={{ headerShown: false }} 
-          />
-          <Stack.Screen 
-            name="modal" 
+            name="servers" 
             options={{ 
-              presentation: 'modal', 
-              title: 'تفاصيل الحاج',
+              title: 'الخوادم',
               headerStyle: {
                 backgroundColor: theme.colors.primary,
               },
               headerTintColor: '#FFFFFF',
             }} 
           />
+          {/* Reachable signed out - anyone who finds a pilgrim can read their card */}
           <Stack.Screen 
-            name="scanner" 
+            name="found" 
             options={{ 
-              title: 'مسح NFC',
+              title: 'حاج تائه',
               headerStyle: {
                 backgroundColor: theme.colors.primary,
               },
@@ -0,0 +1,132 @@
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import React from 'react';
+import { FlatList, StyleSheet, Text, View } from 'react-native';
+
+import { Card } from '@/src/components/ui/Card';
+import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
+import { useBuses } from '@/src/hooks/useBuses';
+import { usePilgrims } from '@/src/hooks/usePilgrims';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { useAppStore } from '@/src/store';
+import { Bus } from '@/src/types';
+
+// Pick the bus the scanner works on
+export default function BusesScreen() {
+  const { data: buses, isLoading, error } = useBuses();
+  const { data: pilgrims } = usePilgrims();
+  const { activeBusId, setActiveBus } = useAppStore();
+
+  const handleSelectBus = async (bus: Bus) => {
+    await Haptics.selectionAsync();
+    setActiveBus(bus.id);
+    router.back();
+  };
+
+  const renderBus = ({ item: bus }: { item: Bus }) => {
+    const assigned = pilgrims?.filter((pilgrim) => pilgrim.bus === bus.id).length ?? 0;
+
+    return (
+      <Card
+        onPress={() => handleSelectBus(bus)}
+        style={bus.id === activeBusId ? { ...styles.busCard, ...styles.busCardActive } : styles.busCard}
+      >
+        <Text style={styles.busNumber}>{toArabicNumbers(bus.number)}</Text>
+        <View style={styles.busInfo}>
+          <Text style={styles.busDetail}>
+            {ARABIC_TEXTS.PLATE_NUMBER}: {bus.plate_number}
+          </Text>
+          <Text style={styles.busDetail}>
+            {ARABIC_TEXTS.DRIVER}: {bus.driver_name} {bus.driver_phone && `(${toArabicNumbers(bus.driver_phone)})`}
+          </Text>
+          <Text style={[styles.busDetail, assigned > bus.capacity && styles.overCapacity]}>
+            {ARABIC_TEXTS.ASSIGNED_PILGRIMS}: {toArabicNumbers(`${assigned} / ${bus.capacity}`)}
+          </Text>
+        </View>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner text={ARABIC_TEXTS.LOADING} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={buses}
+        renderItem={renderBus}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListEmptyComponent={
+          <Text style={error ? styles.errorText : styles.emptyText}>
+            {error ? getErrorMessage(error) : ARABIC_TEXTS.NO_BUSES}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  separator: {
+    height: 12,
+  },
+  busCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 16,
+  },
+  busCardActive: {
+    borderWidth: 2,
+    borderColor: '#2D5D31',
+  },
+  busNumber: {
+    minWidth: 40,
+    fontSize: 28,
+    fontFamily: 'Cairo_700Bold',
+    color: '#2D5D31',
+    textAlign: 'center',
+  },
+  busInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  busDetail: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#374151',
+    writingDirection: 'rtl',
+  },
+  overCapacity: {
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#EF4444',
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+    paddingVertical: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#EF4444',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+    paddingVertical: 40,
+  },
+});
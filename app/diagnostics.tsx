@@ -0,0 +1,242 @@
+import * as Haptics from 'expo-haptics';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { SimulatedReaderPanel } from '@/src/components/nfc/SimulatedReaderPanel';
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
+import { StatusBadge } from '@/src/components/ui/StatusBadge';
+import { usePilgrimByNfc } from '@/src/hooks/usePilgrims';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { nfcService } from '@/src/services/nfc';
+import { bytesToHex } from '@/src/services/nfc/encoding';
+import { NdefRecord, TagDiagnostics } from '@/src/types';
+
+// One line summary of a decoded record
+const describeRecord = (record: NdefRecord): string => {
+  switch (record.kind) {
+    case 'text':
+      return `Text [${record.language}]: ${record.text}`;
+    case 'uri':
+      return `URI: ${record.uri}`;
+    case 'mime':
+      return `${record.mimeType}: ${record.json !== undefined ? JSON.stringify(record.json) : record.text ?? `${record.data.length} B`}`;
+    case 'external':
+      return `${record.type}: ${record.payload.length} B`;
+    case 'empty':
+      return 'Empty';
+    case 'unknown':
+      return `TNF ${record.tnf} ${record.type}: ${bytesToHex(record.payload)}`;
+  }
+};
+
+export default function DiagnosticsScreen() {
+  const [diagnostics, setDiagnostics] = useState<TagDiagnostics | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const {
+    data: matchedPilgrim,
+    isLoading: pilgrimLoading,
+    error: pilgrimError,
+  } = usePilgrimByNfc(diagnostics?.cardId || '');
+
+  const handleReadTag = async () => {
+    setDiagnostics(null);
+    setIsReading(true);
+
+    try {
+      const result = await nfcService.diagnoseTag();
+      setDiagnostics(result);
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const renderRow = (label: string, value: string, color?: string) => (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={[styles.rowValue, color ? { color } : null]} selectable>
+        {value}
+      </Text>
+    </View>
+  );
+
+  const renderMatch = () => {
+    if (!diagnostics?.cardId) return null;
+
+    if (pilgrimLoading) {
+      return <LoadingSpinner size="small" text={ARABIC_TEXTS.LOADING} />;
+    }
+
+    if (pilgrimError) {
+      return <Text style={styles.errorText}>{getErrorMessage(pilgrimError)}</Text>;
+    }
+
+    if (!matchedPilgrim) {
+      return <Text style={styles.errorText}>{ARABIC_TEXTS.DIAG_NO_MATCH}</Text>;
+    }
+
+    return (
+      <View style={styles.matchRow}>
+        <Text style={styles.matchName}>{matchedPilgrim.full_name}</Text>
+        <StatusBadge status={matchedPilgrim.status} size="sm" />
+      </View>
+    );
+  };
+
+  const renderDiagnostics = (result: TagDiagnostics) => {
+    if (!result.success) {
+      return (
+        <Card style={styles.section}>
+          <Text style={styles.errorText}>{getErrorMessage(result.error || 'UNKNOWN_ERROR')}</Text>
+        </Card>
+      );
+    }
+
+    const ndefSize = result.ndefCapacity
+      ? `${result.ndefUsedBytes} / ${result.ndefCapacity} ${ARABIC_TEXTS.BYTES}`
+      : `${result.ndefUsedBytes} ${ARABIC_TEXTS.BYTES}`;
+
+    return (
+      <>
+        <Card style={styles.section}>
+          {renderRow(ARABIC_TEXTS.DIAG_UID, result.uid || ARABIC_TEXTS.UNKNOWN)}
+          {renderRow(
+            ARABIC_TEXTS.DIAG_TECHNOLOGIES,
+            result.technologies.length
+              ? result.technologies.map((tech) => tech.split('.').pop()).join('، ')
+              : result.technology || ARABIC_TEXTS.UNKNOWN
+          )}
+          {renderRow(ARABIC_TEXTS.DIAG_NDEF_SIZE, toArabicNumbers(ndefSize))}
+          {renderRow(
+            ARABIC_TEXTS.DIAG_WRITABLE,
+            result.isWritable === undefined
+              ? ARABIC_TEXTS.UNKNOWN
+              : result.isWritable ? ARABIC_TEXTS.YES : ARABIC_TEXTS.NO
+          )}
+        </Card>
+
+        <Card style={styles.section}>
+          {renderRow(
+            ARABIC_TEXTS.DIAG_CARD_ID,
+            result.cardId || getErrorMessage(result.cardIdError || 'INVALID_CARD'),
+            result.cardId ? undefined : '#EF4444'
+          )}
+          {renderRow(
+            ARABIC_TEXTS.DIAG_SIGNATURE,
+            ARABIC_TEXTS.SIGNATURE_STATUS[result.signature],
+            result.signature === 'invalid' || result.signature === 'missing' ? '#EF4444' : undefined
+          )}
+          <Text style={styles.subTitle}>{ARABIC_TEXTS.DIAG_PILGRIM_MATCH}</Text>
+          {renderMatch()}
+        </Card>
+
+        <Card style={styles.section}>
+          <Text style={styles.subTitle}>{ARABIC_TEXTS.DIAG_RECORDS}</Text>
+          {result.records.length === 0 ? (
+            <Text style={styles.hintText}>{ARABIC_TEXTS.DIAG_NO_RECORDS}</Text>
+          ) : (
+            result.records.map((record, index) => (
+              <Text key={index} style={styles.recordText} selectable>
+                {index + 1}. {describeRecord(record)}
+              </Text>
+            ))
+          )}
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hintText}>{ARABIC_TEXTS.INSTRUCTION_DIAGNOSTICS}</Text>
+
+      <ActionButton
+        title={ARABIC_TEXTS.READ_TAG}
+        onPress={handleReadTag}
+        variant="primary"
+        size="lg"
+        fullWidth
+        loading={isReading}
+      />
+
+      {nfcService.isSimulated() && <SimulatedReaderPanel />}
+
+      {diagnostics && renderDiagnostics(diagnostics)}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  section: {
+    padding: 16,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    textAlign: 'left',
+  },
+  subTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+    marginTop: 4,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  matchName: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Cairo_500Medium',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  recordText: {
+    fontSize: 13,
+    fontFamily: 'Cairo_400Regular',
+    color: '#1F2937',
+    textAlign: 'left',
+  },
+  hintText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#EF4444',
+    writingDirection: 'rtl',
+  },
+});
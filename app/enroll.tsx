@@ -0,0 +1,335 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { PilgrimCard } from '@/src/components/pilgrim/PilgrimCard';
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
+import { useEnrollCard } from '@/src/hooks/useCardEnrollment';
+import { usePilgrims } from '@/src/hooks/usePilgrims';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { CardRevokeReason, Pilgrim } from '@/src/types';
+
+export default function EnrollCardScreen() {
+  const { pilgrimId } = useLocalSearchParams<{ pilgrimId?: string }>();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedPilgrim, setSelectedPilgrim] = useState<Pilgrim | null>(null);
+  const [lockCard, setLockCard] = useState(false);
+  const [includeEmergencyInfo, setIncludeEmergencyInfo] = useState(true);
+  const hasPreselected = useRef(false);
+
+  // Hooks
+  const { data: pilgrims, isLoading } = usePilgrims();
+  const enrollCard = useEnrollCard();
+
+  // Preselect the pilgrim when opened for a reissue
+  useEffect(() => {
+    if (pilgrimId && pilgrims && !hasPreselected.current) {
+      hasPreselected.current = true;
+      setSelectedPilgrim(pilgrims.find((pilgrim) => pilgrim.id === pilgrimId) || null);
+    }
+  }, [pilgrimId, pilgrims]);
+
+  // Pilgrims without a card first, then by name
+  const filteredPilgrims = useMemo(() => {
+    if (!pilgrims) return [];
+
+    const query = searchQuery.trim().toLowerCase();
+    const filtered = query
+      ? pilgrims.filter((pilgrim) =>
+          pilgrim.full_name.toLowerCase().includes(query) ||
+          pilgrim.passport_number.toLowerCase().includes(query)
+        )
+      : pilgrims;
+
+    return filtered.slice().sort((a, b) => {
+      if (!a.nfc_card_id !== !b.nfc_card_id) {
+        return a.nfc_card_id ? 1 : -1;
+      }
+      return a.full_name.localeCompare(b.full_name, 'ar');
+    });
+  }, [pilgrims, searchQuery]);
+
+  // Handlers
+  const writeCard = async (pilgrim: Pilgrim, revokeReason?: CardRevokeReason) => {
+    try {
+      const { enrollment } = await enrollCard.mutateAsync({
+        pilgrim,
+        lockCard,
+        includeEmergencyInfo,
+        revokeReason,
+      });
+
+      Alert.alert(
+        'نجح',
+        `${ARABIC_TEXTS.SUCCESS_ENROLL}\n${toArabicNumbers(enrollment.cardId || '')}`,
+        [
+          {
+            text: ARABIC_TEXTS.ENROLL_ANOTHER,
+            onPress: () => setSelectedPilgrim(null),
+          },
+          {
+            text: ARABIC_TEXTS.CLOSE,
+            onPress: () => router.back(),
+          },
+        ]
+      );
+    } catch (error: any) {
+      Alert.alert('خطأ', getErrorMessage(error));
+    }
+  };
+
+  const handleWriteCard = () => {
+    if (!selectedPilgrim) return;
+
+    if (selectedPilgrim.nfc_card_id) {
+      // Reissue - the current card is revoked with the chosen reason
+      const reasons: CardRevokeReason[] = ['lost', 'damaged', 'replaced'];
+      Alert.alert(
+        ARABIC_TEXTS.REISSUE_CARD,
+        ARABIC_TEXTS.REVOKE_REASON_PROMPT,
+        [
+          ...reasons.map((reason) => ({
+            text: ARABIC_TEXTS.REVOKE_REASONS[reason],
+            onPress: () => writeCard(selectedPilgrim, reason),
+          })),
+          { text: ARABIC_TEXTS.CANCEL, style: 'cancel' as const },
+        ]
+      );
+      return;
+    }
+
+    writeCard(selectedPilgrim);
+  };
+
+  const renderPilgrimItem = ({ item }: { item: Pilgrim }) => (
+    <View>
+      <PilgrimCard pilgrim={item} onPress={setSelectedPilgrim} compact />
+      {!!item.nfc_card_id && (
+        <Text style={styles.hasCardText}>{ARABIC_TEXTS.HAS_CARD}</Text>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner text={ARABIC_TEXTS.LOADING} />;
+  }
+
+  if (selectedPilgrim) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <Card style={styles.selectedCard}>
+            <Text style={styles.sectionTitle}>{ARABIC_TEXTS.SELECTED_PILGRIM}</Text>
+            <PilgrimCard pilgrim={selectedPilgrim} compact />
+            {!!selectedPilgrim.nfc_card_id && (
+              <Text style={styles.currentCardText}>
+                {ARABIC_TEXTS.CURRENT_CARD}: {toArabicNumbers(selectedPilgrim.nfc_card_id)}
+              </Text>
+            )}
+          </Card>
+
+          <Card style={styles.optionCard}>
+            <View style={styles.optionRow}>
+              <View style={styles.optionInfo}>
+                <Text style={styles.optionTitle}>{ARABIC_TEXTS.LOCK_CARD}</Text>
+                <Text style={styles.optionHint}>{ARABIC_TEXTS.LOCK_CARD_HINT}</Text>
+              </View>
+              <Switch
+                value={lockCard}
+                onValueChange={setLockCard}
+                trackColor={{ true: '#2D5D31', false: '#E5E7EB' }}
+              />
+            </View>
+            <View style={[styles.optionRow, styles.optionDivider]}>
+              <View style={styles.optionInfo}>
+                <Text style={styles.optionTitle}>{ARABIC_TEXTS.WRITE_EMERGENCY_INFO}</Text>
+                <Text style={styles.optionHint}>{ARABIC_TEXTS.WRITE_EMERGENCY_INFO_HINT}</Text>
+              </View>
+              <Switch
+                value={includeEmergencyInfo}
+                onValueChange={setIncludeEmergencyInfo}
+                trackColor={{ true: '#2D5D31', false: '#E5E7EB' }}
+              />
+            </View>
+          </Card>
+
+          {enrollCard.isPending && (
+            <Card style={styles.waitingCard}>
+              <LoadingSpinner size="small" text={ARABIC_TEXTS.PLACE_BLANK_CARD} />
+            </Card>
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          <ActionButton
+            title={selectedPilgrim.nfc_card_id ? ARABIC_TEXTS.REISSUE_CARD : ARABIC_TEXTS.WRITE_CARD}
+            onPress={handleWriteCard}
+            variant="success"
+            size="lg"
+            fullWidth
+            loading={enrollCard.isPending}
+          />
+          <ActionButton
+            title={ARABIC_TEXTS.CHOOSE_ANOTHER_PILGRIM}
+            onPress={() => setSelectedPilgrim(null)}
+            variant="secondary"
+            fullWidth
+            disabled={enrollCard.isPending}
+          />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={filteredPilgrims}
+        renderItem={renderPilgrimItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.instruction}>{ARABIC_TEXTS.INSTRUCTION_ENROLL}</Text>
+            <Card style={styles.searchCard}>
+              <TextInput
+                style={styles.searchInput}
+                placeholder={ARABIC_TEXTS.SEARCH_PLACEHOLDER}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                textAlign="right"
+                placeholderTextColor="#6B7280"
+              />
+            </Card>
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>{ARABIC_TEXTS.NO_PILGRIMS_FOUND}</Text>
+        }
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    gap: 16,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    marginBottom: 16,
+    gap: 12,
+  },
+  instruction: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  searchCard: {
+    padding: 0,
+  },
+  searchInput: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#1F2937',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    writingDirection: 'rtl',
+  },
+  hasCardText: {
+    fontSize: 12,
+    fontFamily: 'Cairo_500Medium',
+    color: '#F59E0B',
+    writingDirection: 'rtl',
+    marginTop: 4,
+    marginHorizontal: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Cairo_500Medium',
+    color: '#6B7280',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+    paddingVertical: 40,
+  },
+  separator: {
+    height: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+    marginBottom: 12,
+  },
+  selectedCard: {
+    padding: 16,
+  },
+  currentCardText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#F59E0B',
+    writingDirection: 'rtl',
+    marginTop: 12,
+  },
+  optionCard: {
+    padding: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  optionHint: {
+    fontSize: 12,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  waitingCard: {
+    padding: 16,
+    minHeight: 120,
+  },
+  actions: {
+    padding: 20,
+    gap: 12,
+  },
+});
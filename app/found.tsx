@@ -0,0 +1,148 @@
+import * as Haptics from 'expo-haptics';
+import React, { useState } from 'react';
+import { Linking, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { SimulatedReaderPanel } from '@/src/components/nfc/SimulatedReaderPanel';
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { nfcService } from '@/src/services/nfc';
+import { EmergencyReadResult } from '@/src/types';
+
+// Read-only view of the emergency record on a pilgrim's card - never talks
+// to the server so it works for anyone who finds a pilgrim
+export default function FoundPilgrimScreen() {
+  const [result, setResult] = useState<EmergencyReadResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+
+  const handleReadCard = async () => {
+    setResult(null);
+    setIsReading(true);
+
+    try {
+      const readResult = await nfcService.readEmergencyInfo();
+      setResult(readResult);
+      await Haptics.notificationAsync(
+        readResult.success
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      );
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleCallLeader = (phone: string) => {
+    Linking.openURL(`tel:${phone}`);
+  };
+
+  const renderField = (label: string, value?: string) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <Text style={[styles.fieldValue, !value && styles.fieldMissing]} selectable>
+        {value || ARABIC_TEXTS.NOT_PROVIDED}
+      </Text>
+    </View>
+  );
+
+  const info = result?.success ? result.info : undefined;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.instruction}>{ARABIC_TEXTS.INSTRUCTION_FOUND}</Text>
+
+      <ActionButton
+        title={ARABIC_TEXTS.READ_EMERGENCY_CARD}
+        onPress={handleReadCard}
+        variant="warning"
+        size="lg"
+        fullWidth
+        loading={isReading}
+      />
+
+      {nfcService.isSimulated() && <SimulatedReaderPanel />}
+
+      {result && !result.success && (
+        <Card style={styles.card}>
+          <Text style={styles.errorText}>{getErrorMessage(result.error || 'UNKNOWN_ERROR')}</Text>
+        </Card>
+      )}
+
+      {info && (
+        <Card style={styles.card}>
+          <Text style={styles.name}>{info.name}</Text>
+          {renderField(
+            ARABIC_TEXTS.GROUP_LEADER_PHONE,
+            info.groupLeaderPhone && toArabicNumbers(info.groupLeaderPhone)
+          )}
+          {renderField(ARABIC_TEXTS.BUS_NUMBER, info.bus)}
+          {renderField(ARABIC_TEXTS.HOTEL, info.hotel)}
+          {renderField(ARABIC_TEXTS.MEDICAL_NOTES, info.medicalNotes)}
+
+          {info.groupLeaderPhone && (
+            <ActionButton
+              title={ARABIC_TEXTS.CALL_GROUP_LEADER}
+              onPress={() => handleCallLeader(info.groupLeaderPhone!)}
+              variant="success"
+              fullWidth
+            />
+          )}
+        </Card>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  instruction: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  card: {
+    padding: 16,
+    gap: 12,
+  },
+  name: {
+    fontSize: 20,
+    fontFamily: 'Cairo_700Bold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  field: {
+    gap: 2,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontFamily: 'Cairo_500Medium',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  fieldValue: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  fieldMissing: {
+    fontFamily: 'Cairo_400Regular',
+    color: '#9CA3AF',
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#EF4444',
+    writingDirection: 'rtl',
+  },
+});
@@ -0,0 +1,143 @@
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput } from 'react-native';
+
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { useLogin } from '@/src/hooks/useAuth';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
+import { ARABIC_TEXTS } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+
+// Operators sign in before anything touches the server. The root layout
+// switches to the app once the session is stored.
+export default function LoginScreen() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const login = useLogin();
+  const { activeServer } = useServerProfiles();
+
+  const handleLogin = async () => {
+    try {
+      await login.mutateAsync({ email, password });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.title}>{ARABIC_TEXTS.APP_NAME}</Text>
+      <Text style={styles.instruction}>{ARABIC_TEXTS.INSTRUCTION_LOGIN}</Text>
+
+      <Card style={styles.formCard}>
+        <TextInput
+          style={styles.textInput}
+          placeholder={ARABIC_TEXTS.EMAIL}
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+          textAlign="right"
+          placeholderTextColor="#6B7280"
+        />
+        <TextInput
+          style={styles.textInput}
+          placeholder={ARABIC_TEXTS.PASSWORD}
+          value={password}
+          onChangeText={setPassword}
+          onSubmitEditing={handleLogin}
+          secureTextEntry
+          autoCapitalize="none"
+          autoComplete="password"
+          textAlign="right"
+          placeholderTextColor="#6B7280"
+        />
+
+        {login.error && (
+          <Text style={styles.errorText}>{getErrorMessage(login.error)}</Text>
+        )}
+
+        <ActionButton
+          title={ARABIC_TEXTS.LOGIN}
+          onPress={handleLogin}
+          variant="primary"
+          fullWidth
+          loading={login.isPending}
+          disabled={!email.trim() || !password}
+        />
+      </Card>
+
+      <ActionButton
+        title={`${ARABIC_TEXTS.SERVERS}: ${activeServer.name}`}
+        onPress={() => router.push('/servers')}
+        variant="secondary"
+        fullWidth
+      />
+
+      {/* Reading an emergency card needs no account */}
+      <ActionButton
+        title={ARABIC_TEXTS.FOUND_PILGRIM}
+        onPress={() => router.push('/found')}
+        variant="warning"
+        fullWidth
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontFamily: 'Cairo_700Bold',
+    color: '#2D5D31',
+    textAlign: 'center',
+  },
+  instruction: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+  },
+  formCard: {
+    padding: 16,
+    gap: 12,
+  },
+  textInput: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    writingDirection: 'rtl',
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#EF4444',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+  },
+});
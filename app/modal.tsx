@@ -7,8 +7,15 @@ import { ActionButton } from '@/src/components/ui/ActionButton';
 import { Card } from '@/src/components/ui/Card';
 import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
 import { StatusBadge } from '@/src/components/ui/StatusBadge';
+import { useAuth } from '@/src/hooks/useAuth';
+import { useAssignBus, useBuses } from '@/src/hooks/useBuses';
+import { usePilgrimCards, useRevokeCard } from '@/src/hooks/useCards';
 import { usePilgrim, useUpdatePilgrimStatus } from '@/src/hooks/usePilgrims';
+import { usePilgrimScanEvents } from '@/src/hooks/useScanEvents';
+import { useLegBoardings, useUpdateLegBoarding } from '@/src/hooks/useTrips';
 import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { useAppStore } from '@/src/store';
 
 export default function PilgrimDetailsModal() {
   const { pilgrimId } = useLocalSearchParams<{ pilgrimId: string }>();
@@ -16,12 +23,28 @@ export default function PilgrimDetailsModal() {
   // Hooks
   const { data: pilgrim, isLoading, error } = usePilgrim(pilgrimId || '');
   const updateStatus = useUpdatePilgrimStatus();
+  const updateLegBoarding = useUpdateLegBoarding();
+  const activeLegId = useAppStore((state) => state.activeLegId);
+  const activeBusId = useAppStore((state) => state.activeBusId);
+  const { data: boardings } = useLegBoardings(activeLegId || '');
+  const { data: cards } = usePilgrimCards(pilgrimId || '');
+  const revokeCard = useRevokeCard();
+  const { data: buses } = useBuses();
+  const assignBus = useAssignBus();
+  const { data: scanEvents } = usePilgrimScanEvents(pilgrimId || '');
+  const { can } = useAuth();
+
+  // With a leg selected the status is the pilgrim's boarding on it, as on
+  // the home screen and the scanner
+  const status = activeLegId
+    ? boardings?.find((entry) => entry.pilgrim === pilgrimId)?.status ?? 'offboard'
+    : pilgrim?.status ?? 'offboard';
 
   // Handlers
   const handleStatusToggle = async () => {
     if (!pilgrim) return;
 
-    const newStatus = pilgrim.status === 'onboard' ? 'offboard' : 'onboard';
+    const newStatus = status === 'onboard' ? 'offboard' : 'onboard';
     const actionText = newStatus === 'onboard' ? 'صعود' : 'نزول';
     
     Alert.alert(
@@ -31,23 +54,63 @@ export default function PilgrimDetailsModal() {
         { text: 'إلغاء', style: 'cancel' },
         {
           text: 'تأكيد',
+          onPress: () => {
+            const onError = () => {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            };
+
+            // The new status shows at once - the hooks roll it back and
+            // name the pilgrim if the server refuses
+            if (activeLegId) {
+              updateLegBoarding.mutate(
+                {
+                  legId: activeLegId,
+                  pilgrimId: pilgrim.id,
+                  status: newStatus,
+                  busId: activeBusId || undefined,
+                  manual: true,
+                },
+                { onError }
+              );
+            } else {
+              updateStatus.mutate({ id: pilgrim.id, status: newStatus }, { onError });
+            }
+
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          }
+        }
+      ]
+    );
+  };
+
+  const handleReissueCard = () => {
+    if (!pilgrim) return;
+    router.push({ pathname: '/enroll', params: { pilgrimId: pilgrim.id } });
+  };
+
+  const handleRevokeCard = () => {
+    if (!pilgrim?.nfc_card_id) return;
+
+    Alert.alert(
+      ARABIC_TEXTS.REVOKE_CARD,
+      ARABIC_TEXTS.CONFIRM_REVOKE_CARD,
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'تأكيد',
+          style: 'destructive',
           onPress: async () => {
             try {
-              await updateStatus.mutateAsync({
-                id: pilgrim.id,
-                status: newStatus,
+              await revokeCard.mutateAsync({
+                pilgrimId: pilgrim.id,
+                cardId: pilgrim.nfc_card_id,
+                reason: 'lost',
               });
-              
               await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-              
-              const successMessage = newStatus === 'onboard' 
-                ? ARABIC_TEXTS.SUCCESS_ONBOARD 
-                : ARABIC_TEXTS.SUCCESS_OFFBOARD;
-              
-              Alert.alert('نجح', successMessage);
+              Alert.alert('نجح', ARABIC_TEXTS.SUCCESS_REVOKE);
             } catch (error: any) {
               await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-              Alert.alert('خطأ', error.message || 'فشل في تحديث الحالة');
+              Alert.alert('خطأ', getErrorMessage(error));
             }
           }
         }
@@ -55,6 +118,18 @@ export default function PilgrimDetailsModal() {
     );
   };
 
+  const handleAssignBus = async (busId: string) => {
+    if (!pilgrim || pilgrim.bus === busId) return;
+
+    try {
+      await assignBus.mutateAsync({ pilgrimId: pilgrim.id, busId });
+      await Haptics.selectionAsync();
+    } catch (error: any) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('خطأ', getErrorMessage(error));
+    }
+  };
+
   const handleClose = () => {
     router.back();
   };
@@ -67,7 +142,7 @@ export default function PilgrimDetailsModal() {
     return (
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>
-          {error?.message || 'لم يتم العثور على بيانات الحاج'}
+          {error ? getErrorMessage(error) : ARABIC_TEXTS.ERROR_PILGRIM_NOT_FOUND}
         </Text>
         <ActionButton title="إغلاق" onPress={handleClose} />
       </View>
@@ -103,6 +178,14 @@ export default function PilgrimDetailsModal() {
     }
   };
 
+  const formatDateTime = (dateString: string) => {
+    try {
+      return toArabicNumbers(new Date(dateString).toLocaleString('ar-SA'));
+    } catch {
+      return dateString;
+    }
+  };
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       {/* Header with photo and basic info */}
@@ -113,7 +196,7 @@ export default function PilgrimDetailsModal() {
         
         <View style={styles.headerInfo}>
           <Text style={styles.pilgrimName}>{pilgrim.full_name}</Text>
-          <StatusBadge status={pilgrim.status} size="lg" />
+          <StatusBadge status={status} size="lg" />
         </View>
       </Card>
 
@@ -178,11 +261,117 @@ export default function PilgrimDetailsModal() {
           
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>الحالة الحالية:</Text>
-            <StatusBadge status={pilgrim.status} size="md" />
+            <StatusBadge status={status} size="md" />
           </View>
         </View>
       </Card>
 
+      {/* Bus Assignment */}
+      <Card style={styles.sectionCard}>
+        <Text style={styles.sectionTitle}>{ARABIC_TEXTS.BUS_ASSIGNMENT}</Text>
+
+        <View style={styles.cardActions}>
+          <ActionButton
+            title={ARABIC_TEXTS.UNASSIGNED}
+            onPress={() => handleAssignBus('')}
+            variant={!pilgrim.bus ? 'primary' : 'secondary'}
+            size="sm"
+            disabled={assignBus.isPending || !can('assign_bus')}
+          />
+          {buses?.map((bus) => (
+            <ActionButton
+              key={bus.id}
+              title={`${ARABIC_TEXTS.BUS} ${toArabicNumbers(bus.number)}`}
+              onPress={() => handleAssignBus(bus.id)}
+              variant={pilgrim.bus === bus.id ? 'primary' : 'secondary'}
+              size="sm"
+              disabled={assignBus.isPending || !can('assign_bus')}
+            />
+          ))}
+        </View>
+      </Card>
+
+      {/* Card History */}
+      <Card style={styles.sectionCard}>
+        <Text style={styles.sectionTitle}>{ARABIC_TEXTS.CARD_HISTORY}</Text>
+
+        <View style={styles.detailsGrid}>
+          {cards && cards.length > 0 ? (
+            cards.map((card) => (
+              <View key={card.id} style={styles.detailRow}>
+                <View>
+                  <Text style={styles.detailValue}>{toArabicNumbers(card.card_id)}</Text>
+                  <Text style={styles.detailLabel}>
+                    {card.status === 'revoked'
+                      ? `${formatDate(card.revoked_at)}${card.revoke_reason ? ` - ${ARABIC_TEXTS.REVOKE_REASONS[card.revoke_reason]}` : ''}`
+                      : formatDate(card.created)}
+                  </Text>
+                </View>
+                <Text style={[
+                  styles.cardStatus,
+                  { color: card.status === 'active' ? '#10B981' : '#EF4444' },
+                ]}>
+                  {card.status === 'active' ? ARABIC_TEXTS.CARD_ACTIVE : ARABIC_TEXTS.CARD_REVOKED}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.detailLabel}>{ARABIC_TEXTS.NO_CARD_HISTORY}</Text>
+          )}
+        </View>
+
+        {can('manage_cards') && (
+          <View style={styles.cardActions}>
+            <ActionButton
+              title={ARABIC_TEXTS.REISSUE_CARD}
+              onPress={handleReissueCard}
+              variant="primary"
+              size="sm"
+            />
+            {!!pilgrim.nfc_card_id && (
+              <ActionButton
+                title={ARABIC_TEXTS.REVOKE_CARD}
+                onPress={handleRevokeCard}
+                variant="danger"
+                size="sm"
+                loading={revokeCard.isPending}
+              />
+            )}
+          </View>
+        )}
+      </Card>
+
+      {/* Scan History */}
+      <Card style={styles.sectionCard}>
+        <Text style={styles.sectionTitle}>{ARABIC_TEXTS.SCAN_HISTORY}</Text>
+
+        <View style={styles.detailsGrid}>
+          {scanEvents && scanEvents.length > 0 ? (
+            scanEvents.slice(0, 10).map((event) => (
+              <View key={event.id} style={styles.detailRow}>
+                <View>
+                  <Text style={styles.detailValue}>
+                    {ARABIC_TEXTS.SCAN_EVENT_TYPES[event.type]}
+                    {event.status ? ` - ${event.status === 'onboard' ? ARABIC_TEXTS.ONBOARD : ARABIC_TEXTS.OFFBOARD}` : ''}
+                  </Text>
+                  <Text style={styles.detailLabel}>
+                    {formatDateTime(event.timestamp)}{event.operator ? ` - ${event.operator}` : ''}
+                  </Text>
+                </View>
+                <Text style={[
+                  styles.cardStatus,
+                  { color: event.type === 'failed_scan' ? '#EF4444' : '#10B981' },
+                ]}>
+                  {event.result === 'SUCCESS' ? ARABIC_TEXTS.SCAN_EVENT_SUCCESS : getErrorMessage(event.result)}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.detailLabel}>{ARABIC_TEXTS.NO_SCAN_HISTORY}</Text>
+          )}
+        </View>
+      </Card>
+
       {/* Timestamps */}
       <Card style={styles.sectionCard}>
         <Text style={styles.sectionTitle}>معلومات إضافية</Text>
@@ -206,13 +395,24 @@ export default function PilgrimDetailsModal() {
 
       {/* Action Buttons */}
       <View style={styles.actionsContainer}>
-        <ActionButton
-          title={pilgrim.status === 'onboard' ? 'تسجيل النزول' : 'تسجيل الصعود'}
-          onPress={handleStatusToggle}
-          variant={pilgrim.status === 'onboard' ? 'danger' : 'success'}
-          fullWidth
-          loading={updateStatus.isPending}
-        />
+        {can('override_status') && (
+          <ActionButton
+            title={status === 'onboard' ? 'تسجيل النزول' : 'تسجيل الصعود'}
+            onPress={handleStatusToggle}
+            variant={status === 'onboard' ? 'danger' : 'success'}
+            fullWidth
+            loading={updateStatus.isPending || updateLegBoarding.isPending}
+          />
+        )}
+
+        {can('edit_pilgrim') && (
+          <ActionButton
+            title={ARABIC_TEXTS.EDIT_PILGRIM}
+            onPress={() => router.push({ pathname: '/pilgrim-form', params: { pilgrimId: pilgrim.id } })}
+            variant="secondary"
+            fullWidth
+          />
+        )}
         
         <ActionButton
           title="إغلاق"
@@ -323,6 +523,17 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     writingDirection: 'rtl',
   },
+  cardStatus: {
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    writingDirection: 'rtl',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
   seatNumber: {
     fontSize: 18,
     color: '#2D5D31',
@@ -0,0 +1,513 @@
+import * as Haptics from 'expo-haptics';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
+import { useAuth } from '@/src/hooks/useAuth';
+import {
+  useCreatePilgrim,
+  useDeletePilgrim,
+  usePilgrim,
+  useUpdatePilgrim,
+  useUpdatePilgrimStatus,
+} from '@/src/hooks/usePilgrims';
+import { useUpdateLegBoarding } from '@/src/hooks/useTrips';
+import { ARABIC_TEXTS, toLatinNumbers, UI_PHRASES } from '@/src/localization';
+import { getErrorMessage, toServiceError } from '@/src/services/errors';
+import { normalizeCardId } from '@/src/services/nfc/cardIdentity';
+import { pocketbaseService } from '@/src/services/pocketbase';
+import { useAppStore } from '@/src/store';
+import { Pilgrim } from '@/src/types';
+
+interface PilgrimForm {
+  full_name: string;
+  passport_number: string;
+  nfc_card_id: string;
+  seat_number: string;
+  status: 'onboard' | 'offboard';
+  phone: string;
+  date_of_birth: string;
+  sex: 'male' | 'female';
+  nationality: string;
+}
+
+type FormErrors = Partial<Record<keyof PilgrimForm, string>>;
+
+const EMPTY_FORM: PilgrimForm = {
+  full_name: '',
+  passport_number: '',
+  nfc_card_id: '',
+  seat_number: '',
+  status: 'offboard',
+  phone: '',
+  date_of_birth: '',
+  sex: 'male',
+  nationality: '',
+};
+
+const PASSPORT_PATTERN = /^[A-Z0-9]{6,9}$/;
+const PHONE_PATTERN = /^\+?[0-9]{7,15}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CARD_ID_PATTERN = /^([0-9A-F]{2})+$/; // UID as card identities store it
+
+const toForm = (pilgrim: Pilgrim): PilgrimForm => ({
+  full_name: pilgrim.full_name,
+  passport_number: pilgrim.passport_number,
+  nfc_card_id: pilgrim.nfc_card_id,
+  seat_number: pilgrim.seat_number.toString(),
+  status: pilgrim.status,
+  phone: pilgrim.phone,
+  // PocketBase stores dates as "YYYY-MM-DD HH:MM:SS.sssZ"
+  date_of_birth: pilgrim.date_of_birth.slice(0, 10),
+  sex: pilgrim.sex,
+  nationality: pilgrim.nationality,
+});
+
+// What gets saved - digits typed on an Arabic keyboard become English ones
+const normalizeForm = (form: PilgrimForm): PilgrimForm => ({
+  ...form,
+  full_name: form.full_name.trim().replace(/\s+/g, ' '),
+  passport_number: toLatinNumbers(form.passport_number).trim().toUpperCase(),
+  nfc_card_id: normalizeCardId(form.nfc_card_id),
+  seat_number: toLatinNumbers(form.seat_number).trim(),
+  phone: toLatinNumbers(form.phone).replace(/[\s-]/g, ''),
+  date_of_birth: toLatinNumbers(form.date_of_birth).trim(),
+  nationality: form.nationality.trim(),
+});
+
+const isValidDateOfBirth = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+
+  // Rejects dates that roll over, like 2000-02-30
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) return false;
+
+  return date.getUTCFullYear() >= 1900 && date.getTime() <= Date.now();
+};
+
+// Checks that need no server - seat and card uniqueness are checked on save.
+// The card of an existing pilgrim is read-only here, so only a new one is checked
+const validateForm = (form: PilgrimForm, isEditing: boolean): FormErrors => {
+  const errors: FormErrors = {};
+  const seat = Number(form.seat_number);
+
+  if (!form.full_name) {
+    errors.full_name = UI_PHRASES.REQUIRED_FIELD;
+  } else if (form.full_name.length < 3) {
+    errors.full_name = ARABIC_TEXTS.VALIDATION.NAME_TOO_SHORT;
+  }
+
+  if (!PASSPORT_PATTERN.test(form.passport_number)) {
+    errors.passport_number = ARABIC_TEXTS.VALIDATION.INVALID_PASSPORT;
+  }
+
+  if (!form.seat_number) {
+    errors.seat_number = UI_PHRASES.REQUIRED_FIELD;
+  } else if (!Number.isInteger(seat) || seat < 1) {
+    errors.seat_number = ARABIC_TEXTS.VALIDATION.INVALID_SEAT;
+  }
+
+  if (!PHONE_PATTERN.test(form.phone)) {
+    errors.phone = ARABIC_TEXTS.VALIDATION.INVALID_PHONE;
+  }
+
+  if (!isValidDateOfBirth(form.date_of_birth)) {
+    errors.date_of_birth = ARABIC_TEXTS.VALIDATION.INVALID_DATE_OF_BIRTH;
+  }
+
+  if (!form.nationality) {
+    errors.nationality = UI_PHRASES.REQUIRED_FIELD;
+  }
+
+  if (!isEditing && form.nfc_card_id && !CARD_ID_PATTERN.test(form.nfc_card_id)) {
+    errors.nfc_card_id = ARABIC_TEXTS.VALIDATION.INVALID_CARD_ID;
+  }
+
+  return errors;
+};
+
+// Add a pilgrim, or edit the one passed as pilgrimId
+export default function PilgrimFormScreen() {
+  const { pilgrimId } = useLocalSearchParams<{ pilgrimId?: string }>();
+  const isEditing = !!pilgrimId;
+
+  const [form, setForm] = useState<PilgrimForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isChecking, setIsChecking] = useState(false);
+
+  const { data: pilgrim, isLoading, error } = usePilgrim(pilgrimId || '');
+  const createPilgrim = useCreatePilgrim();
+  const updatePilgrim = useUpdatePilgrim();
+  const updateStatus = useUpdatePilgrimStatus();
+  const updateLegBoarding = useUpdateLegBoarding();
+  const deletePilgrim = useDeletePilgrim();
+  const { can } = useAuth();
+
+  // Fill the form once the record arrives - later refetches keep the edits
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  useEffect(() => {
+    if (pilgrim && pilgrim.id !== loadedId) {
+      setForm(toForm(pilgrim));
+      setLoadedId(pilgrim.id);
+    }
+  }, [pilgrim, loadedId]);
+
+  const setField = <K extends keyof PilgrimForm>(field: K, value: PilgrimForm[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  // Uniqueness needs the server - only asked about values that changed
+  const checkUniqueness = async (values: PilgrimForm): Promise<FormErrors> => {
+    const excludeId = pilgrimId || '';
+    const uniqueErrors: FormErrors = {};
+
+    const [seatTaken, cardTaken] = await Promise.all([
+      values.seat_number !== pilgrim?.seat_number.toString()
+        ? pocketbaseService.isSeatNumberTaken(Number(values.seat_number), excludeId)
+        : false,
+      !isEditing && values.nfc_card_id
+        ? pocketbaseService.isCardIdTaken(values.nfc_card_id, excludeId)
+        : false,
+    ]);
+
+    if (seatTaken) uniqueErrors.seat_number = ARABIC_TEXTS.VALIDATION.SEAT_TAKEN;
+    if (cardTaken) uniqueErrors.nfc_card_id = ARABIC_TEXTS.VALIDATION.CARD_TAKEN;
+    return uniqueErrors;
+  };
+
+  // A status set here takes the path of the scanner and the details screen:
+  // a boarding on the active leg when there is one, and an audit entry
+  const changeStatus = async (id: string, status: PilgrimForm['status']) => {
+    const { activeLegId, activeBusId } = useAppStore.getState();
+
+    if (activeLegId) {
+      await updateLegBoarding.mutateAsync({
+        legId: activeLegId,
+        pilgrimId: id,
+        status,
+        busId: activeBusId || undefined,
+        manual: true,
+      });
+      return;
+    }
+
+    await updateStatus.mutateAsync({ id, status });
+  };
+
+  const handleSave = async () => {
+    const values = normalizeForm(form);
+    setForm(values);
+
+    const formErrors = validateForm(values, isEditing);
+    setErrors(formErrors);
+    if (Object.keys(formErrors).length > 0) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    let statusSent = false;
+
+    try {
+      setIsChecking(true);
+      const uniqueErrors = await checkUniqueness(values);
+      if (Object.keys(uniqueErrors).length > 0) {
+        setErrors(uniqueErrors);
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+
+      const data = {
+        full_name: values.full_name,
+        passport_number: values.passport_number,
+        seat_number: Number(values.seat_number),
+        phone: values.phone,
+        date_of_birth: values.date_of_birth,
+        sex: values.sex,
+        nationality: values.nationality,
+      };
+
+      if (isEditing) {
+        // The card stays with the enrollment flow so its history is kept
+        await updatePilgrim.mutateAsync({ id: pilgrimId, data });
+        if (values.status !== pilgrim?.status) {
+          statusSent = true;
+          await changeStatus(pilgrimId, values.status);
+        }
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert('نجح', ARABIC_TEXTS.SUCCESS_UPDATE);
+      } else {
+        await createPilgrim.mutateAsync({ ...data, status: values.status, nfc_card_id: values.nfc_card_id });
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert('نجح', ARABIC_TEXTS.SUCCESS_CREATE_PILGRIM);
+      }
+
+      router.back();
+    } catch (saveError) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      // Point at the fields PocketBase rejected
+      const serviceError = toServiceError(saveError);
+      if (serviceError.type === 'VALIDATION_ERROR' && serviceError.data) {
+        const fieldErrors: FormErrors = {};
+        Object.keys(serviceError.data).forEach((field) => {
+          if (field in EMPTY_FORM) {
+            fieldErrors[field as keyof PilgrimForm] = UI_PHRASES.INVALID_INPUT;
+          }
+        });
+        setErrors(fieldErrors);
+      }
+
+      // A refused status change is already reported by its mutation
+      if (!statusSent) {
+        Alert.alert('خطأ', serviceError.localizedMessage);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!pilgrim) return;
+
+    Alert.alert(pilgrim.full_name, ARABIC_TEXTS.CONFIRM_DELETE, [
+      { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+      {
+        text: ARABIC_TEXTS.DELETE,
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deletePilgrim.mutateAsync(pilgrim.id);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            Alert.alert('نجح', ARABIC_TEXTS.SUCCESS_DELETE_PILGRIM);
+            // Leave the details screen behind too, it would show a missing record
+            router.dismissAll();
+          } catch (deleteError) {
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            Alert.alert('خطأ', getErrorMessage(deleteError));
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isEditing && isLoading) {
+    return <LoadingSpinner text={ARABIC_TEXTS.LOADING} />;
+  }
+
+  if (isEditing && (error || !pilgrim)) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>
+          {error ? getErrorMessage(error) : ARABIC_TEXTS.ERROR_PILGRIM_NOT_FOUND}
+        </Text>
+        <ActionButton title={ARABIC_TEXTS.CLOSE} onPress={() => router.back()} />
+      </View>
+    );
+  }
+
+  const renderField = (
+    field: Exclude<keyof PilgrimForm, 'status' | 'sex'>,
+    label: string,
+    inputProps: React.ComponentProps<typeof TextInput> = {}
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.textInput, errors[field] && styles.textInputError]}
+        value={form[field]}
+        onChangeText={(value) => setField(field, value)}
+        textAlign="right"
+        placeholderTextColor="#6B7280"
+        {...inputProps}
+      />
+      {errors[field] && <Text style={styles.fieldError}>{errors[field]}</Text>}
+    </View>
+  );
+
+  const renderChoice = <K extends 'status' | 'sex'>(
+    field: K,
+    label: string,
+    options: { value: PilgrimForm[K]; title: string }[]
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.choiceRow}>
+        {options.map((option) => (
+          <ActionButton
+            key={option.value}
+            title={option.title}
+            onPress={() => setField(field, option.value)}
+            variant={form[field] === option.value ? 'primary' : 'secondary'}
+            size="sm"
+          />
+        ))}
+      </View>
+    </View>
+  );
+
+  const isSaving = isChecking
+    || createPilgrim.isPending
+    || updatePilgrim.isPending
+    || updateStatus.isPending
+    || updateLegBoarding.isPending;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.title}>
+        {isEditing ? ARABIC_TEXTS.EDIT_PILGRIM : ARABIC_TEXTS.ADD_PILGRIM}
+      </Text>
+
+      <Card style={styles.formCard}>
+        {renderField('full_name', ARABIC_TEXTS.FULL_NAME)}
+        {renderField('passport_number', ARABIC_TEXTS.PASSPORT_NUMBER, {
+          autoCapitalize: 'characters',
+          autoCorrect: false,
+          maxLength: 9,
+        })}
+        {renderField('nationality', ARABIC_TEXTS.NATIONALITY)}
+        {renderField('date_of_birth', ARABIC_TEXTS.DATE_OF_BIRTH, {
+          placeholder: ARABIC_TEXTS.DATE_FORMAT_HINT,
+          keyboardType: 'numbers-and-punctuation',
+          maxLength: 10,
+        })}
+        {renderChoice('sex', ARABIC_TEXTS.SEX, [
+          { value: 'male', title: ARABIC_TEXTS.MALE },
+          { value: 'female', title: ARABIC_TEXTS.FEMALE },
+        ])}
+        {renderField('phone', ARABIC_TEXTS.PHONE_NUMBER, {
+          keyboardType: 'phone-pad',
+          autoComplete: 'tel',
+        })}
+      </Card>
+
+      <Card style={styles.formCard}>
+        {renderField('seat_number', ARABIC_TEXTS.SEAT_NUMBER, { keyboardType: 'number-pad' })}
+        {renderChoice('status', ARABIC_TEXTS.STATUS, [
+          { value: 'offboard', title: ARABIC_TEXTS.OFFBOARD },
+          { value: 'onboard', title: ARABIC_TEXTS.ONBOARD },
+        ])}
+        {isEditing ? (
+          <View style={styles.field}>
+            <Text style={styles.label}>{ARABIC_TEXTS.NFC_CARD_ID}</Text>
+            <Text style={styles.readOnlyValue}>{pilgrim?.nfc_card_id || '-'}</Text>
+            <Text style={styles.hint}>{ARABIC_TEXTS.CARD_MANAGED_BY_ENROLL}</Text>
+          </View>
+        ) : (
+          renderField('nfc_card_id', ARABIC_TEXTS.NFC_CARD_ID, {
+            autoCapitalize: 'characters',
+            autoCorrect: false,
+          })
+        )}
+      </Card>
+
+      <ActionButton
+        title={ARABIC_TEXTS.SAVE}
+        onPress={handleSave}
+        variant="primary"
+        fullWidth
+        loading={isSaving}
+      />
+
+      {isEditing && can('delete_pilgrim') && (
+        <ActionButton
+          title={ARABIC_TEXTS.DELETE_PILGRIM}
+          onPress={handleDelete}
+          variant="danger"
+          fullWidth
+          loading={deletePilgrim.isPending}
+          disabled={isSaving}
+        />
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Cairo_700Bold',
+    color: '#2D5D31',
+    writingDirection: 'rtl',
+  },
+  formCard: {
+    padding: 16,
+    gap: 12,
+  },
+  field: {
+    gap: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#374151',
+    writingDirection: 'rtl',
+  },
+  textInput: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    writingDirection: 'rtl',
+  },
+  textInputError: {
+    borderColor: '#EF4444',
+  },
+  fieldError: {
+    fontSize: 12,
+    fontFamily: 'Cairo_400Regular',
+    color: '#EF4444',
+    writingDirection: 'rtl',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  readOnlyValue: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#1F2937',
+    writingDirection: 'ltr',
+    textAlign: 'right',
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    fontFamily: 'Cairo_500Medium',
+    color: '#EF4444',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+  },
+});
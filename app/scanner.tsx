@@ -1,32 +1,70 @@
 import * as Haptics from 'expo-haptics';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Alert, StyleSheet, Text, View } from 'react-native';
 
 import { NFCScanner } from '@/src/components/nfc/NFCScanner';
+import { SimulatedReaderPanel } from '@/src/components/nfc/SimulatedReaderPanel';
 import { ActionButton } from '@/src/components/ui/ActionButton';
 import { Card } from '@/src/components/ui/Card';
 import { OverlayLoading } from '@/src/components/ui/LoadingSpinner';
 import { StatusBadge } from '@/src/components/ui/StatusBadge';
+import { useAuth } from '@/src/hooks/useAuth';
+import { useBus } from '@/src/hooks/useBuses';
+import { useDuplicateScanGuard } from '@/src/hooks/useDuplicateScanGuard';
+import { useScanEventLogger } from '@/src/hooks/useScanEvents';
 import useNFC from '@/src/hooks/useNFC';
-import { usePilgrimByNfc, useUpdatePilgrimStatus } from '@/src/hooks/usePilgrims';
+import { usePilgrimByNfc, usePilgrims } from '@/src/hooks/usePilgrims';
+import { useLeg, useLegBoardings, useUpdateLegBoarding } from '@/src/hooks/useTrips';
 import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage, toServiceError } from '@/src/services/errors';
+import { nfcService } from '@/src/services/nfc';
+import { pocketbaseService } from '@/src/services/pocketbase';
 import useAppStore from '@/src/store';
+import { AppError, BoardingStatus, Bus, NFCScanResult, Pilgrim } from '@/src/types';
+
+interface ScanOutcome {
+  kind: 'success' | 'failure' | 'duplicate' | 'wrongBus';
+  message: string;
+  pilgrim?: Pilgrim;
+  timestamp: number;
+}
+
+const OUTCOME_COLORS: Record<ScanOutcome['kind'], string> = {
+  success: '#10B981',
+  failure: '#EF4444',
+  duplicate: '#D4AF37',
+  wrongBus: '#F59E0B',
+};
+
+// Tells the operator which bus a pilgrim belongs on
+const describeWrongBus = (bus: Bus) =>
+  `${ARABIC_TEXTS.ERROR_WRONG_BUS} ${ARABIC_TEXTS.BUS} ${toArabicNumbers(bus.number)}`;
 
 
 export default function ScannerScreen() {
-  const { mode } = useLocalSearchParams<{ mode: 'onboard' | 'offboard' }>();
+  const { mode, legId, busId } = useLocalSearchParams<{
+    mode: 'onboard' | 'offboard';
+    legId: string;
+    busId: string;
+  }>();
   const [scannedCardId, setScannedCardId] = useState<string | null>(null);
   const [showPilgrimDetails, setShowPilgrimDetails] = useState(false);
+  const [scanOutcome, setScanOutcome] = useState<ScanOutcome | null>(null);
+  const continuousQueue = useRef<Promise<void>>(Promise.resolve());
 
   // Hooks
   const { 
     isScanning, 
+    isContinuous,
     startScanning, 
     stopScanning, 
+    startContinuousScanning,
+    stopContinuousScanning,
     lastScanResult,
     error: nfcError,
-    clearError
+    clearError,
+    canScanContinuously
   } = useNFC();
 
   const { 
@@ -35,7 +73,21 @@ export default function ScannerScreen() {
     error: pilgrimError 
   } = usePilgrimByNfc(scannedCardId || '');
 
-  const updatePilgrimStatus = useUpdatePilgrimStatus();
+  // Continuous scans report a failed write on the scan outcome instead of an alert
+  const updateLegBoarding = useUpdateLegBoarding({ notifyOnError: !isContinuous });
+  const { can } = useAuth();
+  const { data: leg } = useLeg(legId || '');
+  const { data: boardings } = useLegBoardings(legId || '');
+  const { data: bus } = useBus(busId || '');
+
+  // Boarding a pilgrim assigned to another bus needs the operator's say-so
+  const isWrongBus = (pilgrim: Pilgrim) => mode === 'onboard' && !!pilgrim.bus && pilgrim.bus !== busId;
+  const { data: assignedBus } = useBus(
+    scannedPilgrim && isWrongBus(scannedPilgrim) ? scannedPilgrim.bus! : ''
+  );
+  const { data: pilgrims } = usePilgrims();
+  const { isDuplicate, recordRead } = useDuplicateScanGuard();
+  const logScanEvent = useScanEventLogger();
   
   // Store
   const { 
@@ -45,53 +97,231 @@ export default function ScannerScreen() {
   } = useAppStore();
 
   // Handlers
-  const handleStartScan = async () => {
+  const handleStartScan = async (signal: AbortSignal) => {
     clearError();
     setScannedCardId(null);
     setShowPilgrimDetails(false);
-    await startScanning();
+    setScanOutcome(null);
+    await startScanning(signal);
   };
 
   const handleStopScan = async () => {
     await stopScanning();
   };
 
-  // Handle scan results
-  useEffect(() => {
-    if (lastScanResult) {
-      if (lastScanResult.success && lastScanResult.cardId) {
-        setScannedCardId(lastScanResult.cardId);
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
-      } else {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+  // Where the pilgrim stands on this leg - read from the server so devices
+  // scanning the same leg agree
+  const getLegStatus = async (pilgrimId: string): Promise<BoardingStatus> => {
+    const boarding = await pocketbaseService.getLegBoarding(legId, pilgrimId);
+    return boarding?.status ?? 'offboard';
+  };
+
+  // A repeat tap of a card that was just read - gentle feedback, no lookup
+  const handleDuplicateScan = () => {
+    const { sessionStats: stats } = useAppStore.getState();
+
+    Haptics.selectionAsync();
+    updateSessionStats({ duplicateScans: stats.duplicateScans + 1 });
+    setScanOutcome({
+      kind: 'duplicate',
+      message: ARABIC_TEXTS.DUPLICATE_SCAN,
+      timestamp: Date.now(),
+    });
+  };
+
+  // Continuous mode: resolve and process every tag as it arrives, one at a time
+  const processContinuousTag = async (result: NFCScanResult) => {
+    const { sessionStats: stats } = useAppStore.getState();
+
+    try {
+      if (!result.success || !result.cardId) {
+        throw new Error(result.error || 'INVALID_CARD');
+      }
+
+      const pilgrim = await pocketbaseService.getPilgrimByNfcId(result.cardId);
+      if (!pilgrim) {
+        throw new Error('PILGRIM_NOT_FOUND');
+      }
+
+      // Never board someone else's pilgrim silently - send them to their bus
+      if (isWrongBus(pilgrim)) {
+        const correctBus = await pocketbaseService.getBusById(pilgrim.bus!);
+
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        logScanEvent({ type: 'failed_scan', result: 'WRONG_BUS', pilgrimId: pilgrim.id, cardId: result.cardId });
         updateSessionStats({
-          failedScans: sessionStats.failedScans + 1,
-          totalScanned: sessionStats.totalScanned + 1,
+          failedScans: stats.failedScans + 1,
+          totalScanned: stats.totalScanned + 1,
         });
+        setScanOutcome({
+          kind: 'wrongBus',
+          message: describeWrongBus(correctBus),
+          pilgrim,
+          timestamp: Date.now(),
+        });
+        return;
       }
+
+      const legStatus = await getLegStatus(pilgrim.id);
+      if (mode === 'onboard' && legStatus === 'onboard') {
+        throw new Error('ALREADY_ONBOARD');
+      }
+      if (mode === 'offboard' && legStatus === 'offboard') {
+        throw new Error('ALREADY_OFFBOARD');
+      }
+
+      await updateLegBoarding.mutateAsync({
+        legId,
+        pilgrimId: pilgrim.id,
+        status: mode,
+        busId,
+        cardId: result.cardId,
+      });
+      recordRead(result.cardId);
+
+      updateSessionStats({
+        successfulScans: stats.successfulScans + 1,
+        totalScanned: stats.totalScanned + 1,
+        ...(mode === 'onboard' && { onboardCount: stats.onboardCount + 1 }),
+        ...(mode === 'offboard' && { offboardCount: stats.offboardCount + 1 }),
+      });
+
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setScanOutcome({
+        kind: 'success',
+        message: mode === 'onboard' ? ARABIC_TEXTS.SUCCESS_ONBOARD : ARABIC_TEXTS.SUCCESS_OFFBOARD,
+        pilgrim,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      console.error('Error processing continuous scan:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      logScanEvent({ type: 'failed_scan', result: toServiceError(error).type, cardId: result.cardId });
+
+      updateSessionStats({
+        failedScans: stats.failedScans + 1,
+        totalScanned: stats.totalScanned + 1,
+      });
+
+      setScanOutcome({
+        kind: 'failure',
+        message: getErrorMessage(error),
+        timestamp: Date.now(),
+      });
     }
-  }, [lastScanResult]);
+  };
+
+  const handleStartContinuousScan = async () => {
+    clearError();
+    setScannedCardId(null);
+    setShowPilgrimDetails(false);
+    setScanOutcome(null);
 
-  const handleConfirmStatusChange = async () => {
-    if (!scannedPilgrim || !mode) return;
+    // The duplicate check runs in the queue so a repeat tap sees whether
+    // the read before it went through
+    await startContinuousScanning((result) => {
+      continuousQueue.current = continuousQueue.current.then(() => {
+        if (result.success && result.cardId && isDuplicate(result.cardId)) {
+          handlers.current.handleDuplicateScan();
+          return;
+        }
+        return handlers.current.processContinuousTag(result);
+      });
+    });
+  };
+
+  // A single-mode read - continuous mode processes its own results
+  const handleScanResult = (result: NFCScanResult) => {
+    if (isContinuous) return;
+
+    if (result.success && result.cardId && isDuplicate(result.cardId)) {
+      handleDuplicateScan();
+    } else if (result.success && result.cardId) {
+      setScannedCardId(result.cardId);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    } else {
+      const { sessionStats: stats } = useAppStore.getState();
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (result.error === 'FORGED_CARD') {
+        Alert.alert(ARABIC_TEXTS.FORGED_CARD_TITLE, ARABIC_TEXTS.ERROR_FORGED_CARD);
+      }
+      logScanEvent({
+        type: 'failed_scan',
+        result: result.error || 'UNKNOWN_ERROR',
+        cardId: result.cardId,
+      });
+      updateSessionStats({
+        failedScans: stats.failedScans + 1,
+        totalScanned: stats.totalScanned + 1,
+      });
+    }
+  };
+
+  const handleConfirmStatusChange = () => {
+    if (!scannedPilgrim) return;
+
+    if (isWrongBus(scannedPilgrim)) {
+      Alert.alert(
+        ARABIC_TEXTS.WRONG_BUS_TITLE,
+        assignedBus ? describeWrongBus(assignedBus) : ARABIC_TEXTS.ERROR_WRONG_BUS,
+        // Only roles that may override get to board the pilgrim here
+        can('override_status')
+          ? [
+              { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+              { text: ARABIC_TEXTS.BOARD_ANYWAY, style: 'destructive', onPress: () => applyStatusChange('WRONG_BUS') },
+            ]
+          : [{ text: ARABIC_TEXTS.CLOSE }]
+      );
+      return;
+    }
+
+    applyStatusChange();
+  };
+
+  const applyStatusChange = async (override?: AppError) => {
+    if (!scannedPilgrim || !mode || !legId) return;
+
+    let boardingSent = false;
 
     try {
-      // Check if status change is valid
-      if (mode === 'onboard' && scannedPilgrim.status === 'onboard') {
+      // Check if status change is valid for this leg
+      const legStatus = await getLegStatus(scannedPilgrim.id);
+      if (mode === 'onboard' && legStatus === 'onboard') {
+        logScanEvent({
+          type: 'failed_scan',
+          result: 'ALREADY_ONBOARD',
+          pilgrimId: scannedPilgrim.id,
+          cardId: scannedCardId || undefined,
+        });
         Alert.alert('خطأ', ARABIC_TEXTS.ERROR_ALREADY_ONBOARD);
         return;
       }
       
-      if (mode === 'offboard' && scannedPilgrim.status === 'offboard') {
+      if (mode === 'offboard' && legStatus === 'offboard') {
+        logScanEvent({
+          type: 'failed_scan',
+          result: 'ALREADY_OFFBOARD',
+          pilgrimId: scannedPilgrim.id,
+          cardId: scannedCardId || undefined,
+        });
         Alert.alert('خطأ', ARABIC_TEXTS.ERROR_ALREADY_OFFBOARD);
         return;
       }
 
-      // Update pilgrim status
-      await updatePilgrimStatus.mutateAsync({
-        id: scannedPilgrim.id,
+      // Record the boarding on this leg
+      boardingSent = true;
+      await updateLegBoarding.mutateAsync({
+        legId,
+        pilgrimId: scannedPilgrim.id,
         status: mode,
+        busId,
+        cardId: scannedCardId || undefined,
+        override,
       });
+      if (scannedCardId) {
+        recordRead(scannedCardId);
+      }
 
       // Update session stats
       updateSessionStats({
@@ -129,8 +359,17 @@ export default function ScannerScreen() {
     } catch (error: any) {
       console.error('Error updating pilgrim status:', error);
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert('خطأ', error.message || 'فشل في تحديث حالة الحاج');
-      
+      logScanEvent({
+        type: 'failed_scan',
+        result: toServiceError(error).type,
+        pilgrimId: scannedPilgrim.id,
+        cardId: scannedCardId || undefined,
+      });
+      // A refused boarding is already reported by the mutation, with the pilgrim's name
+      if (!boardingSent) {
+        Alert.alert('خطأ', getErrorMessage(error));
+      }
+
       updateSessionStats({
         failedScans: sessionStats.failedScans + 1,
         totalScanned: sessionStats.totalScanned + 1,
@@ -139,37 +378,68 @@ export default function ScannerScreen() {
   };
 
   const handleCancel = () => {
+    stopContinuousScanning();
     endSession();
     router.back();
   };
 
+  // The card lookup finished - show the pilgrim, or why there is none
+  const handleLookupResult = () => {
+    if (scannedPilgrim) {
+      setShowPilgrimDetails(true);
+      return;
+    }
+
+    // Pilgrim not found, the card was revoked or the lookup failed
+    const { sessionStats: stats } = useAppStore.getState();
+    const errorType = pilgrimError ? toServiceError(pilgrimError).type : 'PILGRIM_NOT_FOUND';
+
+    logScanEvent({
+      type: 'failed_scan',
+      result: errorType,
+      cardId: scannedCardId || undefined,
+    });
+
+    Alert.alert('خطأ', getErrorMessage(errorType), [
+      {
+        text: ARABIC_TEXTS.RETRY,
+        onPress: () => {
+          setScannedCardId(null);
+        }
+      },
+      {
+        text: ARABIC_TEXTS.CANCEL,
+        onPress: handleCancel
+      }
+    ]);
+
+    updateSessionStats({
+      failedScans: stats.failedScans + 1,
+      totalScanned: stats.totalScanned + 1,
+    });
+  };
+
+  // Scan callbacks and the effects below run on new results only - they
+  // reach the handlers through this ref so they see the current leg, bus
+  // and session rather than those of the render they started in
+  const handlers = useRef({ handleScanResult, handleLookupResult, handleDuplicateScan, processContinuousTag });
+  useEffect(() => {
+    handlers.current = { handleScanResult, handleLookupResult, handleDuplicateScan, processContinuousTag };
+  });
+
+  // Handle scan results
+  useEffect(() => {
+    if (lastScanResult) {
+      handlers.current.handleScanResult(lastScanResult);
+    }
+  }, [lastScanResult]);
+
   // Effect to handle pilgrim found/not found
   useEffect(() => {
     if (scannedCardId && !pilgrimLoading) {
-      if (scannedPilgrim) {
-        setShowPilgrimDetails(true);
-      } else {
-        // Pilgrim not found
-        Alert.alert('خطأ', ARABIC_TEXTS.ERROR_PILGRIM_NOT_FOUND, [
-          {
-            text: ARABIC_TEXTS.RETRY,
-            onPress: () => {
-              setScannedCardId(null);
-            }
-          },
-          {
-            text: ARABIC_TEXTS.CANCEL,
-            onPress: handleCancel
-          }
-        ]);
-        
-        updateSessionStats({
-          failedScans: sessionStats.failedScans + 1,
-          totalScanned: sessionStats.totalScanned + 1,
-        });
-      }
+      handlers.current.handleLookupResult();
     }
-  }, [scannedCardId, scannedPilgrim, pilgrimLoading]);
+  }, [scannedCardId, scannedPilgrim, pilgrimLoading, pilgrimError]);
 
   if (!mode) {
     return (
@@ -180,10 +450,26 @@ export default function ScannerScreen() {
     );
   }
 
+  if (!legId || !busId) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>
+          {!legId ? ARABIC_TEXTS.ERROR_NO_ACTIVE_LEG : ARABIC_TEXTS.ERROR_NO_ACTIVE_BUS}
+        </Text>
+        <ActionButton title="العودة" onPress={() => router.back()} />
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       {/* Session Stats Header */}
       <Card style={styles.statsHeader}>
+        {leg && (
+          <Text style={styles.legName}>
+            {leg.name}{bus && ` - ${ARABIC_TEXTS.BUS} ${toArabicNumbers(bus.number)}`}
+          </Text>
+        )}
         <View style={styles.statsRow}>
           <View style={styles.statItem}>
             <Text style={styles.statValue}>
@@ -203,6 +489,12 @@ export default function ScannerScreen() {
             </Text>
             <Text style={styles.statLabel}>فاشل</Text>
           </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, { color: '#D4AF37' }]}>
+              {toArabicNumbers(sessionStats.duplicateScans.toString())}
+            </Text>
+            <Text style={styles.statLabel}>مكرر</Text>
+          </View>
         </View>
       </Card>
 
@@ -212,11 +504,38 @@ export default function ScannerScreen() {
           isScanning={isScanning}
           onStartScan={handleStartScan}
           onStopScan={handleStopScan}
+          onStartContinuousScan={canScanContinuously ? handleStartContinuousScan : undefined}
+          isContinuous={isContinuous}
           scanMode={mode}
           lastScanResult={lastScanResult || undefined}
         />
       </View>
 
+      {/* Simulated Reader Controls */}
+      {nfcService.isSimulated() && (
+        <SimulatedReaderPanel
+          cardIds={pilgrims?.map((pilgrim) => pilgrim.nfc_card_id).filter(Boolean)}
+        />
+      )}
+
+      {/* Last Scan Outcome - every result in continuous mode, duplicates in both */}
+      {scanOutcome && (isContinuous || scanOutcome.kind === 'duplicate') && (
+        <Card style={styles.outcomeCard}>
+          <View style={[
+            styles.outcomeIndicator,
+            { backgroundColor: OUTCOME_COLORS[scanOutcome.kind] },
+          ]} />
+          <View style={styles.outcomeInfo}>
+            {scanOutcome.pilgrim && (
+              <Text style={styles.outcomeName} numberOfLines={1}>
+                {scanOutcome.pilgrim.full_name}
+              </Text>
+            )}
+            <Text style={styles.outcomeMessage}>{scanOutcome.message}</Text>
+          </View>
+        </Card>
+      )}
+
       {/* Pilgrim Details Modal */}
       {showPilgrimDetails && scannedPilgrim && (
         <View style={styles.overlay}>
@@ -224,8 +543,17 @@ export default function ScannerScreen() {
             <Card style={styles.pilgrimCard}>
               <View style={styles.pilgrimHeader}>
                 <Text style={styles.pilgrimName}>{scannedPilgrim.full_name}</Text>
-                <StatusBadge status={scannedPilgrim.status} size="lg" />
+                <StatusBadge
+                  status={boardings?.find((entry) => entry.pilgrim === scannedPilgrim.id)?.status ?? 'offboard'}
+                  size="lg"
+                />
               </View>
+
+              {isWrongBus(scannedPilgrim) && (
+                <Text style={styles.wrongBusText}>
+                  {assignedBus ? describeWrongBus(assignedBus) : ARABIC_TEXTS.ERROR_WRONG_BUS}
+                </Text>
+              )}
               
               <View style={styles.pilgrimDetails}>
                 <View style={styles.detailRow}>
@@ -254,7 +582,7 @@ export default function ScannerScreen() {
                   onPress={handleConfirmStatusChange}
                   variant={mode === 'onboard' ? 'success' : 'danger'}
                   fullWidth
-                  loading={updatePilgrimStatus.isPending}
+                  loading={updateLegBoarding.isPending}
                 />
                 
                 <ActionButton
@@ -279,7 +607,7 @@ export default function ScannerScreen() {
       {(nfcError || pilgrimError) && (
         <View style={styles.errorBanner}>
           <Text style={styles.errorBannerText}>
-            {nfcError || pilgrimError?.message || 'حدث خطأ'}
+            {nfcError || (pilgrimError && getErrorMessage(pilgrimError)) || 'حدث خطأ'}
           </Text>
         </View>
       )}
@@ -306,6 +634,25 @@ const styles = StyleSheet.create({
     margin: 20,
     marginBottom: 10,
   },
+  wrongBusText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#B45309',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    textAlign: 'center',
+    writingDirection: 'rtl',
+  },
+  legName: {
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#2D5D31',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+    marginBottom: 8,
+  },
   statsRow: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -328,6 +675,32 @@ const styles = StyleSheet.create({
   scannerContainer: {
     flex: 1,
   },
+  outcomeCard: {
+    marginHorizontal: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  outcomeIndicator: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  outcomeInfo: {
+    flex: 1,
+  },
+  outcomeName: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  outcomeMessage: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,203 @@
+import * as Haptics from 'expo-haptics';
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { OverlayLoading } from '@/src/components/ui/LoadingSpinner';
+import { useServerProfiles, useSwitchServer } from '@/src/hooks/useServerProfiles';
+import { ARABIC_TEXTS } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { useAppStore } from '@/src/store';
+import { DEFAULT_SERVER_PROFILE, ServerProfile } from '@/src/types';
+
+// Pick the backend the app talks to - reachable signed out, since operators
+// sign in to a specific server
+export default function ServersScreen() {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+
+  const { profiles, activeServerId } = useServerProfiles();
+  const switchServer = useSwitchServer();
+  const { addServerProfile, removeServerProfile } = useAppStore();
+
+  const handleSwitch = (profile: ServerProfile) => {
+    if (profile.id === activeServerId || switchServer.isPending) return;
+
+    Alert.alert(profile.name, ARABIC_TEXTS.CONFIRM_SWITCH_SERVER, [
+      { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+      {
+        text: ARABIC_TEXTS.SWITCH_SERVER,
+        onPress: async () => {
+          try {
+            await switchServer.mutateAsync(profile.id);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            Alert.alert('نجح', `${ARABIC_TEXTS.SUCCESS_SWITCH_SERVER} ${profile.name}`);
+          } catch (error: any) {
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            Alert.alert('خطأ', getErrorMessage(error));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAdd = () => {
+    try {
+      addServerProfile(name, url);
+      setName('');
+      setUrl('');
+    } catch (error: any) {
+      Alert.alert('خطأ', getErrorMessage(error));
+    }
+  };
+
+  const handleRemove = (profile: ServerProfile) => {
+    Alert.alert(profile.name, ARABIC_TEXTS.CONFIRM_REMOVE_SERVER, [
+      { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+      { text: ARABIC_TEXTS.DELETE, style: 'destructive', onPress: () => removeServerProfile(profile.id) },
+    ]);
+  };
+
+  const renderProfile = (profile: ServerProfile) => {
+    const isActive = profile.id === activeServerId;
+
+    return (
+      <Card
+        key={profile.id}
+        onPress={() => handleSwitch(profile)}
+        style={isActive ? { ...styles.serverCard, ...styles.serverCardActive } : styles.serverCard}
+      >
+        <View style={styles.serverInfo}>
+          <Text style={styles.serverName} numberOfLines={1}>{profile.name}</Text>
+          <Text style={styles.serverUrl} numberOfLines={1}>{profile.url}</Text>
+          {isActive && <Text style={styles.activeLabel}>{ARABIC_TEXTS.ACTIVE_SERVER}</Text>}
+        </View>
+        {!isActive && profile.id !== DEFAULT_SERVER_PROFILE.id && (
+          <ActionButton
+            title={ARABIC_TEXTS.DELETE}
+            onPress={() => handleRemove(profile)}
+            variant="danger"
+            size="sm"
+          />
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.instruction}>{ARABIC_TEXTS.INSTRUCTION_SERVERS}</Text>
+
+        {profiles.map(renderProfile)}
+
+        {/* New Profile */}
+        <Card style={styles.formCard}>
+          <Text style={styles.sectionTitle}>{ARABIC_TEXTS.ADD_SERVER}</Text>
+          <TextInput
+            style={styles.textInput}
+            placeholder={ARABIC_TEXTS.SERVER_NAME}
+            value={name}
+            onChangeText={setName}
+            textAlign="right"
+            placeholderTextColor="#6B7280"
+          />
+          <TextInput
+            style={[styles.textInput, styles.urlInput]}
+            placeholder="https://"
+            value={url}
+            onChangeText={setUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            placeholderTextColor="#6B7280"
+          />
+          <ActionButton
+            title={ARABIC_TEXTS.ADD_SERVER}
+            onPress={handleAdd}
+            variant="primary"
+            fullWidth
+            disabled={!name.trim() || !url.trim()}
+          />
+        </Card>
+      </ScrollView>
+
+      {switchServer.isPending && <OverlayLoading text={ARABIC_TEXTS.CHECKING_SERVER} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  instruction: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  serverCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  serverCardActive: {
+    borderWidth: 2,
+    borderColor: '#2D5D31',
+  },
+  serverInfo: {
+    flex: 1,
+  },
+  serverName: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  serverUrl: {
+    fontSize: 13,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'ltr',
+  },
+  activeLabel: {
+    fontSize: 12,
+    fontFamily: 'Cairo_500Medium',
+    color: '#10B981',
+    writingDirection: 'rtl',
+  },
+  formCard: {
+    padding: 16,
+    gap: 12,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  textInput: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    writingDirection: 'rtl',
+  },
+  urlInput: {
+    writingDirection: 'ltr',
+    textAlign: 'left',
+  },
+});
@@ -0,0 +1,138 @@
+import { router } from 'expo-router';
+import React from 'react';
+import { Alert, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { useAuth } from '@/src/hooks/useAuth';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { useAppStore } from '@/src/store';
+import { DUPLICATE_SCAN_WINDOW_OPTIONS, NFC_SCAN_TIMEOUT_OPTIONS } from '@/src/types';
+
+export default function SettingsScreen() {
+  const { settings, updateSettings } = useAppStore();
+  const { operator, logout } = useAuth();
+  const { activeServer } = useServerProfiles();
+
+  const handleLogout = () => {
+    Alert.alert(ARABIC_TEXTS.LOGOUT, ARABIC_TEXTS.CONFIRM_LOGOUT, [
+      { text: ARABIC_TEXTS.CANCEL, style: 'cancel' },
+      { text: ARABIC_TEXTS.LOGOUT, style: 'destructive', onPress: logout },
+    ]);
+  };
+
+  const formatWindow = (windowMs: number) =>
+    windowMs === 0
+      ? ARABIC_TEXTS.DISABLED
+      : `${toArabicNumbers((windowMs / 1000).toString())} ${ARABIC_TEXTS.SECONDS}`;
+
+  const formatTimeout = (timeoutMs: number) =>
+    timeoutMs === 0
+      ? ARABIC_TEXTS.NO_TIMEOUT
+      : `${toArabicNumbers((timeoutMs / 1000).toString())} ${ARABIC_TEXTS.SECONDS}`;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Operator */}
+      {operator && (
+        <Card style={styles.settingCard}>
+          <Text style={styles.settingHint}>{ARABIC_TEXTS.SIGNED_IN_AS}</Text>
+          <Text style={styles.settingTitle}>{operator.name || operator.email}</Text>
+          <Text style={styles.settingHint}>{ARABIC_TEXTS.OPERATOR_ROLES[operator.role]}</Text>
+          <View style={styles.options}>
+            <ActionButton
+              title={ARABIC_TEXTS.LOGOUT}
+              onPress={handleLogout}
+              variant="danger"
+              size="sm"
+            />
+          </View>
+        </Card>
+      )}
+
+      {/* Duplicate Scan Window */}
+      <Card style={styles.settingCard}>
+        <Text style={styles.settingTitle}>{ARABIC_TEXTS.DUPLICATE_WINDOW}</Text>
+        <Text style={styles.settingHint}>{ARABIC_TEXTS.DUPLICATE_WINDOW_HINT}</Text>
+        <View style={styles.options}>
+          {DUPLICATE_SCAN_WINDOW_OPTIONS.map((windowMs) => (
+            <ActionButton
+              key={windowMs}
+              title={formatWindow(windowMs)}
+              onPress={() => updateSettings({ duplicateWindowMs: windowMs })}
+              variant={settings.duplicateWindowMs === windowMs ? 'primary' : 'secondary'}
+              size="sm"
+            />
+          ))}
+        </View>
+      </Card>
+
+      {/* Scan Timeout */}
+      <Card style={styles.settingCard}>
+        <Text style={styles.settingTitle}>{ARABIC_TEXTS.SCAN_TIMEOUT_SETTING}</Text>
+        <Text style={styles.settingHint}>{ARABIC_TEXTS.SCAN_TIMEOUT_HINT}</Text>
+        <View style={styles.options}>
+          {NFC_SCAN_TIMEOUT_OPTIONS.map((timeoutMs) => (
+            <ActionButton
+              key={timeoutMs}
+              title={formatTimeout(timeoutMs)}
+              onPress={() => updateSettings({ scanTimeoutMs: timeoutMs })}
+              variant={settings.scanTimeoutMs === timeoutMs ? 'primary' : 'secondary'}
+              size="sm"
+            />
+          ))}
+        </View>
+      </Card>
+
+      {/* Server */}
+      <ActionButton
+        title={`${ARABIC_TEXTS.SERVERS}: ${activeServer.name}`}
+        onPress={() => router.push('/servers')}
+        variant="secondary"
+        fullWidth
+      />
+
+      {/* Troubleshooting */}
+      <ActionButton
+        title={ARABIC_TEXTS.TAG_DIAGNOSTICS}
+        onPress={() => router.push('/diagnostics')}
+        variant="secondary"
+        fullWidth
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  settingCard: {
+    padding: 16,
+    gap: 8,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  settingHint: {
+    fontSize: 12,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,184 @@
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
+import { useActiveLeg, useTripLegs, useTrips } from '@/src/hooks/useTrips';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { useAppStore } from '@/src/store';
+import { TripLeg, TripLegStatus } from '@/src/types';
+
+const LEG_STATUS_COLORS: Record<TripLegStatus, string> = {
+  scheduled: '#6B7280',
+  active: '#10B981',
+  completed: '#2D5D31',
+};
+
+// Pick the trip leg the scanner records boardings against
+export default function TripsScreen() {
+  const [selectedTripId, setSelectedTripId] = useState<string | null>(null);
+
+  const { data: trips, isLoading: tripsLoading, error: tripsError } = useTrips();
+  const { data: activeLeg } = useActiveLeg();
+  const { activeLegId, setActiveLeg } = useAppStore();
+
+  // Open on the trip of the active leg, or the most recent trip
+  const tripId = selectedTripId || activeLeg?.trip || trips?.[0]?.id || '';
+  const { data: legs, isLoading: legsLoading } = useTripLegs(tripId);
+
+  const handleSelectLeg = async (leg: TripLeg) => {
+    await Haptics.selectionAsync();
+    setActiveLeg(leg.id);
+    router.back();
+  };
+
+  const renderLeg = (leg: TripLeg) => (
+    <Card
+      key={leg.id}
+      onPress={() => handleSelectLeg(leg)}
+      style={leg.id === activeLegId ? { ...styles.legCard, ...styles.legCardActive } : styles.legCard}
+    >
+      <Text style={styles.legSequence}>{toArabicNumbers(leg.sequence.toString())}</Text>
+      <View style={styles.legInfo}>
+        <Text style={styles.legName} numberOfLines={1}>{leg.name}</Text>
+        <Text style={styles.legRoute} numberOfLines={1}>
+          {leg.origin} ← {leg.destination}
+        </Text>
+      </View>
+      <Text style={[styles.legStatus, { color: LEG_STATUS_COLORS[leg.status] }]}>
+        {ARABIC_TEXTS.LEG_STATUS[leg.status]}
+      </Text>
+    </Card>
+  );
+
+  if (tripsLoading) {
+    return <LoadingSpinner text={ARABIC_TEXTS.LOADING} />;
+  }
+
+  if (tripsError) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{getErrorMessage(tripsError)}</Text>
+      </View>
+    );
+  }
+
+  if (!trips || trips.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>{ARABIC_TEXTS.NO_TRIPS}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Trips */}
+      <View style={styles.trips}>
+        {trips.map((trip) => (
+          <ActionButton
+            key={trip.id}
+            title={trip.name}
+            onPress={() => setSelectedTripId(trip.id)}
+            variant={trip.id === tripId ? 'primary' : 'secondary'}
+            size="sm"
+          />
+        ))}
+      </View>
+
+      {/* Legs */}
+      <Text style={styles.sectionTitle}>{ARABIC_TEXTS.SELECT_LEG}</Text>
+      {legsLoading ? (
+        <LoadingSpinner size="small" text={ARABIC_TEXTS.LOADING} />
+      ) : legs && legs.length > 0 ? (
+        legs.map(renderLeg)
+      ) : (
+        <Text style={styles.emptyText}>{ARABIC_TEXTS.NO_LEGS}</Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: '#F9FAFB',
+  },
+  trips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+    marginTop: 8,
+  },
+  legCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  legCardActive: {
+    borderWidth: 2,
+    borderColor: '#2D5D31',
+  },
+  legSequence: {
+    width: 24,
+    fontSize: 18,
+    fontFamily: 'Cairo_700Bold',
+    color: '#2D5D31',
+    textAlign: 'center',
+  },
+  legInfo: {
+    flex: 1,
+  },
+  legName: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  legRoute: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  legStatus: {
+    fontSize: 12,
+    fontFamily: 'Cairo_500Medium',
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#EF4444',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+  },
+});
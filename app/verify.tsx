@@ -0,0 +1,409 @@
+import * as Haptics from 'expo-haptics';
+import React, { useEffect, useState } from 'react';
+import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { NFCScanner } from '@/src/components/nfc/NFCScanner';
+import { SimulatedReaderPanel } from '@/src/components/nfc/SimulatedReaderPanel';
+import { PilgrimCard } from '@/src/components/pilgrim/PilgrimCard';
+import { ActionButton } from '@/src/components/ui/ActionButton';
+import { Card } from '@/src/components/ui/Card';
+import { LoadingSpinner } from '@/src/components/ui/LoadingSpinner';
+import { useDuplicateScanGuard } from '@/src/hooks/useDuplicateScanGuard';
+import { useNFC } from '@/src/hooks/useNFC';
+import { useVerificationSweep } from '@/src/hooks/useVerificationSweep';
+import { ARABIC_TEXTS, toArabicNumbers } from '@/src/localization';
+import { getErrorMessage } from '@/src/services/errors';
+import { nfcService } from '@/src/services/nfc';
+import { NFCScanResult, Pilgrim, VerificationStatus } from '@/src/types';
+
+const STATUS_COLORS: Record<VerificationStatus, string> = {
+  verified: '#10B981',
+  mismatch: '#EF4444',
+  unreadable: '#F59E0B',
+};
+
+export default function VerifyScreen() {
+  const [showSummary, setShowSummary] = useState(false);
+
+  // Hooks
+  const { isDuplicate, recordRead } = useDuplicateScanGuard();
+  const {
+    roster,
+    results,
+    currentPilgrim,
+    lastPilgrim,
+    lastEntry,
+    summary,
+    unverifiedPilgrims,
+    isLoading,
+    pausedBy,
+    recordScan,
+    selectPilgrim,
+    skip,
+    resume,
+    reset,
+  } = useVerificationSweep();
+
+  // A card held near the phone twice must not be recorded against the next
+  // pilgrim - single scans arrive through the options, continuous ones through onTag
+  const handleScanResult = (result: NFCScanResult) => {
+    if (result.success && result.cardId && isDuplicate(result.cardId)) {
+      Haptics.selectionAsync();
+      return;
+    }
+    recordScan(result);
+    if (result.success && result.cardId) {
+      recordRead(result.cardId);
+    }
+  };
+
+  const {
+    isScanning,
+    isContinuous,
+    startScanning,
+    stopScanning,
+    startContinuousScanning,
+    stopContinuousScanning,
+    clearError,
+    canScanContinuously,
+  } = useNFC({
+    onScanSuccess: handleScanResult,
+    onScanError: (error) => recordScan({ success: false, error, timestamp: Date.now() }),
+  });
+
+  // A reader failure stops the sweep - keep the reader from running on behind it
+  useEffect(() => {
+    if (!pausedBy) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    stopContinuousScanning();
+  }, [pausedBy, stopContinuousScanning]);
+
+  // Feedback once the result is recorded
+  useEffect(() => {
+    if (!lastEntry) return;
+    Haptics.notificationAsync(
+      lastEntry.status === 'verified'
+        ? Haptics.NotificationFeedbackType.Success
+        : Haptics.NotificationFeedbackType.Error
+    );
+  }, [lastEntry]);
+
+  // Handlers
+  const handleStartScan = async (signal: AbortSignal) => {
+    clearError();
+    resume();
+    await startScanning(signal);
+  };
+
+  const handleStartContinuousScan = async () => {
+    clearError();
+    resume();
+    await startContinuousScanning(handleScanResult);
+  };
+
+  const handleFinish = async () => {
+    await stopContinuousScanning();
+    setShowSummary(true);
+  };
+
+  const handleRestart = () => {
+    reset();
+    setShowSummary(false);
+  };
+
+  const renderStatusLabel = (pilgrim: Pilgrim) => {
+    const entry = results[pilgrim.id];
+    return (
+      <Text style={[styles.statusLabel, { color: entry ? STATUS_COLORS[entry.status] : '#6B7280' }]}>
+        {entry ? ARABIC_TEXTS.VERIFICATION_STATUS[entry.status] : ARABIC_TEXTS.VERIFY_NOT_SCANNED}
+      </Text>
+    );
+  };
+
+  const renderRosterItem = ({ item }: { item: Pilgrim }) => (
+    <Pressable
+      onPress={() => selectPilgrim(item)}
+      style={[styles.rosterRow, item.id === currentPilgrim?.id && styles.rosterRowCurrent]}
+    >
+      <Text style={styles.rosterSeat}>{toArabicNumbers(item.seat_number.toString())}</Text>
+      <Text style={styles.rosterName} numberOfLines={1}>{item.full_name}</Text>
+      {renderStatusLabel(item)}
+    </Pressable>
+  );
+
+  const renderLastOutcome = () => {
+    if (!lastEntry || !lastPilgrim) return null;
+
+    const owner = lastEntry.matchedPilgrimId
+      ? roster.find((pilgrim) => pilgrim.id === lastEntry.matchedPilgrimId)
+      : undefined;
+
+    return (
+      <Card style={styles.outcomeCard}>
+        <View style={[styles.outcomeIndicator, { backgroundColor: STATUS_COLORS[lastEntry.status] }]} />
+        <View style={styles.outcomeInfo}>
+          <Text style={styles.outcomeName} numberOfLines={1}>{lastPilgrim.full_name}</Text>
+          <Text style={styles.outcomeMessage}>
+            {ARABIC_TEXTS.VERIFICATION_STATUS[lastEntry.status]}
+            {lastEntry.status === 'mismatch' && (owner
+              ? ` - ${ARABIC_TEXTS.VERIFY_CARD_BELONGS_TO} ${owner.full_name}`
+              : ` - ${ARABIC_TEXTS.VERIFY_CARD_UNKNOWN}`)}
+          </Text>
+        </View>
+      </Card>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.instruction}>{ARABIC_TEXTS.INSTRUCTION_VERIFY}</Text>
+
+      {/* Progress */}
+      <Card style={styles.progressCard}>
+        <View style={styles.progressRow}>
+          <View style={styles.progressItem}>
+            <Text style={[styles.progressValue, { color: STATUS_COLORS.verified }]}>
+              {toArabicNumbers(`${summary.verified}/${summary.total}`)}
+            </Text>
+            <Text style={styles.progressLabel}>{ARABIC_TEXTS.VERIFICATION_STATUS.verified}</Text>
+          </View>
+          <View style={styles.progressItem}>
+            <Text style={[styles.progressValue, { color: STATUS_COLORS.mismatch }]}>
+              {toArabicNumbers(summary.mismatch.toString())}
+            </Text>
+            <Text style={styles.progressLabel}>{ARABIC_TEXTS.VERIFICATION_STATUS.mismatch}</Text>
+          </View>
+          <View style={styles.progressItem}>
+            <Text style={[styles.progressValue, { color: STATUS_COLORS.unreadable }]}>
+              {toArabicNumbers(summary.unreadable.toString())}
+            </Text>
+            <Text style={styles.progressLabel}>{ARABIC_TEXTS.VERIFICATION_STATUS.unreadable}</Text>
+          </View>
+        </View>
+      </Card>
+
+      {/* Current Pilgrim */}
+      {currentPilgrim ? (
+        <Card style={styles.currentCard}>
+          <Text style={styles.sectionTitle}>{ARABIC_TEXTS.VERIFY_CURRENT}</Text>
+          <PilgrimCard pilgrim={currentPilgrim} compact />
+          <ActionButton title={ARABIC_TEXTS.VERIFY_SKIP} onPress={skip} variant="secondary" size="sm" />
+        </Card>
+      ) : (
+        <Card style={styles.currentCard}>
+          <Text style={styles.sectionTitle}>{ARABIC_TEXTS.VERIFY_COMPLETE}</Text>
+        </Card>
+      )}
+
+      {pausedBy ? (
+        <Card style={styles.outcomeCard}>
+          <View style={[styles.outcomeIndicator, { backgroundColor: STATUS_COLORS.mismatch }]} />
+          <View style={styles.outcomeInfo}>
+            <Text style={styles.outcomeName}>{ARABIC_TEXTS.VERIFY_PAUSED}</Text>
+            <Text style={styles.outcomeMessage}>{getErrorMessage(pausedBy)}</Text>
+          </View>
+        </Card>
+      ) : (
+        renderLastOutcome()
+      )}
+
+      <NFCScanner
+        isScanning={isScanning}
+        onStartScan={handleStartScan}
+        onStopScan={stopScanning}
+        onStartContinuousScan={canScanContinuously ? handleStartContinuousScan : undefined}
+        isContinuous={isContinuous}
+        scanMode={currentPilgrim ? 'verify' : 'idle'}
+      />
+
+      {nfcService.isSimulated() && (
+        <SimulatedReaderPanel
+          cardIds={currentPilgrim?.nfc_card_id ? [currentPilgrim.nfc_card_id] : []}
+        />
+      )}
+
+      <ActionButton
+        title={ARABIC_TEXTS.VERIFY_FINISH}
+        onPress={handleFinish}
+        variant="primary"
+        fullWidth
+      />
+    </View>
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner text={ARABIC_TEXTS.LOADING} />;
+  }
+
+  if (showSummary) {
+    return (
+      <View style={styles.container}>
+        <FlatList
+          data={unverifiedPilgrims}
+          renderItem={renderRosterItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <Text style={styles.sectionTitle}>
+              {ARABIC_TEXTS.VERIFY_UNVERIFIED} ({toArabicNumbers(unverifiedPilgrims.length.toString())})
+            </Text>
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>{ARABIC_TEXTS.VERIFY_ALL_VERIFIED}</Text>
+          }
+          ItemSeparatorComponent={() => <View style={styles.separator} />}
+        />
+        <View style={styles.actions}>
+          <ActionButton
+            title={ARABIC_TEXTS.VERIFY_RESUME}
+            onPress={() => setShowSummary(false)}
+            variant="primary"
+            fullWidth
+          />
+          <ActionButton
+            title={ARABIC_TEXTS.VERIFY_RESTART}
+            onPress={handleRestart}
+            variant="secondary"
+            fullWidth
+          />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={roster}
+        renderItem={renderRosterItem}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader()}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    gap: 16,
+    marginBottom: 16,
+  },
+  instruction: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  progressCard: {
+    padding: 16,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  progressItem: {
+    alignItems: 'center',
+  },
+  progressValue: {
+    fontSize: 20,
+    fontFamily: 'Cairo_700Bold',
+  },
+  progressLabel: {
+    fontSize: 12,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  currentCard: {
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+    marginBottom: 12,
+  },
+  outcomeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  outcomeIndicator: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  outcomeInfo: {
+    flex: 1,
+  },
+  outcomeName: {
+    fontSize: 16,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  outcomeMessage: {
+    fontSize: 14,
+    fontFamily: 'Cairo_400Regular',
+    color: '#6B7280',
+    writingDirection: 'rtl',
+  },
+  rosterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  rosterRowCurrent: {
+    borderWidth: 2,
+    borderColor: '#2D5D31',
+  },
+  rosterSeat: {
+    width: 32,
+    fontSize: 14,
+    fontFamily: 'Cairo_600SemiBold',
+    color: '#2D5D31',
+    textAlign: 'center',
+  },
+  rosterName: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Cairo_500Medium',
+    color: '#1F2937',
+    writingDirection: 'rtl',
+  },
+  statusLabel: {
+    fontSize: 12,
+    fontFamily: 'Cairo_500Medium',
+  },
+  separator: {
+    height: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Cairo_500Medium',
+    color: '#10B981',
+    textAlign: 'center',
+    writingDirection: 'rtl',
+    paddingVertical: 40,
+  },
+  actions: {
+    padding: 20,
+    gap: 12,
+  },
+});
@@ -1,14 +1,16 @@
 import { ARABIC_TEXTS } from '@/src/localization';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Animated, Dimensions, Text, View } from 'react-native';
 import { ActionButton } from '../ui/ActionButton';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 
 interface NFCScannerProps {
   isScanning: boolean;
-  onStartScan: () => void;
+  onStartScan: (signal: AbortSignal) => void; // The signal is aborted when the scan is cancelled
   onStopScan: () => void;
-  scanMode: 'onboard' | 'offboard' | 'idle';
+  onStartContinuousScan?: () => void;
+  isContinuous?: boolean;
+  scanMode: 'onboard' | 'offboard' | 'verify' | 'idle';
   lastScanResult?: {
     success: boolean;
     cardId?: string;
@@ -23,11 +25,31 @@ export const NFCScanner: React.FC<NFCScannerProps> = ({
   isScanning,
   onStartScan,
   onStopScan,
+  onStartContinuousScan,
+  isContinuous = false,
   scanMode,
   lastScanResult,
 }) => {
   const [rippleAnimation] = useState(new Animated.Value(0));
   const [pulseAnimation] = useState(new Animated.Value(1));
+  const scanControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel a scan still waiting for a tag when the scanner goes away
+  useEffect(() => {
+    return () => scanControllerRef.current?.abort();
+  }, []);
+
+  const handleStartScan = () => {
+    scanControllerRef.current?.abort();
+    scanControllerRef.current = new AbortController();
+    onStartScan(scanControllerRef.current.signal);
+  };
+
+  const handleStopScan = () => {
+    scanControllerRef.current?.abort();
+    scanControllerRef.current = null;
+    onStopScan();
+  };
 
   useEffect(() => {
     if (isScanning) {
@@ -70,6 +92,10 @@ export const NFCScanner: React.FC<NFCScannerProps> = ({
   }, [isScanning, rippleAnimation, pulseAnimation]);
 
   const getStatusText = () => {
+    if (isContinuous) {
+      return ARABIC_TEXTS.CONTINUOUS_SCAN_ACTIVE;
+    }
+
     if (isScanning) {
       return ARABIC_TEXTS.NFC_SCANNING;
     }
@@ -91,6 +117,7 @@ export const NFCScanner: React.FC<NFCScannerProps> = ({
   const getScanButtonText = () => {
     if (scanMode === 'onboard') return ARABIC_TEXTS.START_ONBOARD;
     if (scanMode === 'offboard') return ARABIC_TEXTS.START_OFFBOARD;
+    if (scanMode === 'verify') return ARABIC_TEXTS.VERIFY_CARDS;
     return ARABIC_TEXTS.NFC_READY;
   };
 
@@ -164,19 +191,30 @@ export const NFCScanner: React.FC<NFCScannerProps> = ({
       <View style={styles.actions}>
         {isScanning ? (
           <ActionButton
-            title={ARABIC_TEXTS.CANCEL}
-            onPress={onStopScan}
+            title={isContinuous ? ARABIC_TEXTS.STOP_CONTINUOUS_SCAN : ARABIC_TEXTS.CANCEL}
+            onPress={handleStopScan}
             variant="danger"
             fullWidth
           />
         ) : (
-          <ActionButton
-            title={scanMode === 'idle' ? ARABIC_TEXTS.NFC_READY : ARABIC_TEXTS.SCAN_ANOTHER}
-            onPress={onStartScan}
-            variant="primary"
-            fullWidth
-            disabled={scanMode === 'idle'}
-          />
+          <>
+            <ActionButton
+              title={scanMode === 'idle' ? ARABIC_TEXTS.NFC_READY : ARABIC_TEXTS.SCAN_ANOTHER}
+              onPress={handleStartScan}
+              variant="primary"
+              fullWidth
+              disabled={scanMode === 'idle'}
+            />
+            {onStartContinuousScan && (
+              <ActionButton
+                title={ARABIC_TEXTS.CONTINUOUS_SCAN}
+                onPress={onStartContinuousScan}
+                variant="secondary"
+                fullWidth
+                disabled={scanMode === 'idle'}
+              />
+            )}
+          </>
         )}
       </View>
 
@@ -265,6 +303,7 @@ const styles = {
   actions: {
     width: '100%' as const,
     maxWidth: 300,
+    gap: 12,
   },
 };
 
@@ -0,0 +1,124 @@
+import { ARABIC_TEXTS } from '@/src/localization';
+import { nfcService } from '@/src/services/nfc';
+import { simulatedNFCDriver } from '@/src/services/nfc/simulatedDriver';
+import React, { useState } from 'react';
+import { Text, TextInput, View } from 'react-native';
+import { ActionButton } from '../ui/ActionButton';
+import { Card } from '../ui/Card';
+
+interface SimulatedReaderPanelProps {
+  cardIds?: string[];
+}
+
+// Development panel for tapping virtual cards on the simulated reader
+export const SimulatedReaderPanel: React.FC<SimulatedReaderPanelProps> = ({
+  cardIds = [],
+}) => {
+  const [manualCardId, setManualCardId] = useState('');
+  const [nfcOn, setNfcOn] = useState(() => nfcService.getAdapterState() !== 'disabled');
+
+  const handleToggleNfc = () => {
+    simulatedNFCDriver.setEnabled(!nfcOn);
+    setNfcOn(!nfcOn);
+  };
+
+  const handleTapManual = () => {
+    if (!manualCardId.trim()) return;
+    simulatedNFCDriver.tap(manualCardId.trim());
+  };
+
+  return (
+    <Card variant="outlined" style={styles.container}>
+      <Text style={styles.title}>{ARABIC_TEXTS.SIMULATED_READER}</Text>
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={ARABIC_TEXTS.SIMULATED_CARD_ID}
+          value={manualCardId}
+          onChangeText={setManualCardId}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          placeholderTextColor="#6B7280"
+        />
+        <ActionButton
+          title={ARABIC_TEXTS.SIMULATED_TAP}
+          onPress={handleTapManual}
+          size="sm"
+          disabled={!manualCardId.trim()}
+        />
+      </View>
+
+      {cardIds.length > 0 && (
+        <View style={styles.chips}>
+          {cardIds.slice(0, 6).map((cardId) => (
+            <ActionButton
+              key={cardId}
+              title={cardId}
+              onPress={() => simulatedNFCDriver.tap(cardId)}
+              variant="secondary"
+              size="sm"
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.chips}>
+        <ActionButton
+          title={ARABIC_TEXTS.SIMULATED_TIMEOUT}
+          onPress={() => simulatedNFCDriver.emit({ type: 'timeout' })}
+          variant="warning"
+          size="sm"
+        />
+        <ActionButton
+          title={ARABIC_TEXTS.SIMULATED_INVALID}
+          onPress={() => simulatedNFCDriver.emit({ type: 'invalid' })}
+          variant="danger"
+          size="sm"
+        />
+        <ActionButton
+          title={nfcOn ? ARABIC_TEXTS.SIMULATED_NFC_OFF : ARABIC_TEXTS.SIMULATED_NFC_ON}
+          onPress={handleToggleNfc}
+          variant="secondary"
+          size="sm"
+        />
+      </View>
+    </Card>
+  );
+};
+
+const styles = {
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 10,
+    gap: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#6B7280',
+    writingDirection: 'rtl' as const,
+  },
+  inputRow: {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  chips: {
+    flexDirection: 'row' as const,
+    flexWrap: 'wrap' as const,
+    gap: 8,
+  },
+};
+
+export default SimulatedReaderPanel;
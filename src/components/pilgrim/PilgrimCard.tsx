@@ -9,12 +9,14 @@ interface PilgrimCardProps {
   pilgrim: Pilgrim;
   onPress?: (pilgrim: Pilgrim) => void;
   compact?: boolean;
+  selected?: boolean; // Highlighted while picking pilgrims for a bulk action
 }
 
 export const PilgrimCard: React.FC<PilgrimCardProps> = ({
   pilgrim,
   onPress,
   compact = false,
+  selected = false,
 }) => {
   const handlePress = () => {
     if (onPress) {
@@ -101,13 +103,23 @@ export const PilgrimCard: React.FC<PilgrimCardProps> = ({
   };
 
   return (
-    <Card onPress={handlePress} variant="default" padding="md">
+    <Card
+      onPress={handlePress}
+      variant="default"
+      padding="md"
+      style={selected ? styles.selected : undefined}
+    >
       {renderContent()}
     </Card>
   );
 };
 
 const styles = {
+  selected: {
+    borderWidth: 2,
+    borderColor: '#2D5D31',
+    backgroundColor: '#F0F9F1',
+  },
   photo: {
     width: 60,
     height: 60,
@@ -0,0 +1,51 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { ServiceError } from '../services/errors';
+import { useAppStore } from '../store';
+import { AuthSession, Permission, ROLE_PERMISSIONS } from '../types';
+
+const sessionCan = (session: AuthSession | null, permission: Permission) =>
+  !!session && !!ROLE_PERMISSIONS[session.operator.role]?.includes(permission);
+
+// Mutations check before calling the server so a missing permission gets a
+// clear message - the API rules enforce the same roles server side
+export const requirePermission = (permission: Permission) => {
+  if (!sessionCan(useAppStore.getState().auth, permission)) {
+    throw new ServiceError('PERMISSION_DENIED');
+  }
+};
+
+export const useAuth = () => {
+  const queryClient = useQueryClient();
+  const auth = useAppStore((state) => state.auth);
+  const logoutOperator = useAppStore((state) => state.logout);
+
+  const can = useCallback((permission: Permission) => sessionCan(auth, permission), [auth]);
+
+  // Cached data was loaded with the previous operator's access
+  const logout = useCallback(() => {
+    logoutOperator();
+    queryClient.clear();
+  }, [logoutOperator, queryClient]);
+
+  return {
+    operator: auth?.operator ?? null,
+    isAuthenticated: !!auth,
+    can,
+    logout,
+  };
+};
+
+export const useLogin = () => {
+  const login = useAppStore((state) => state.login);
+
+  return useMutation({
+    mutationFn: ({ email, password }: { email: string; password: string }) =>
+      login(email.trim(), password),
+    // A rejected password is not worth sending twice
+    retry: false,
+    onError: (error) => {
+      console.error('Failed to sign in:', error);
+    },
+  });
+};
@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pocketbaseService } from '../services/pocketbase';
+import { Pilgrim } from '../types';
+import { requirePermission } from './useAuth';
+import { queryKeys } from './usePilgrims';
+
+export const useBuses = () => {
+  return useQuery({
+    queryKey: queryKeys.buses,
+    queryFn: () => pocketbaseService.getBuses(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useBus = (id: string) => {
+  return useQuery({
+    queryKey: queryKeys.bus(id),
+    queryFn: () => pocketbaseService.getBusById(id),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useAssignBus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ pilgrimId, busId }: { pilgrimId: string; busId: string }) => {
+      requirePermission('assign_bus');
+      return pocketbaseService.assignPilgrimToBus(pilgrimId, busId);
+    },
+    onSuccess: (updatedPilgrim) => {
+      queryClient.setQueryData(
+        queryKeys.pilgrim(updatedPilgrim.id),
+        updatedPilgrim
+      );
+
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) => {
+          if (!oldPilgrims) return [updatedPilgrim];
+
+          return oldPilgrims.map((pilgrim) =>
+            pilgrim.id === updatedPilgrim.id ? updatedPilgrim : pilgrim
+          );
+        }
+      );
+
+      // Per-bus leg stats count assigned pilgrims
+      queryClient.invalidateQueries({
+        queryKey: ['legs'],
+        exact: false
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to assign bus:', error);
+    },
+  });
+};
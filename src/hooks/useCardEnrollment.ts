@@ -0,0 +1,110 @@
+import * as Haptics from 'expo-haptics';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ServiceError, toServiceError } from '../services/errors';
+import { nfcService } from '../services/nfc';
+import { pocketbaseService } from '../services/pocketbase';
+import { Bus, CardEnrollmentResult, CardRevokeReason, EmergencyInfo, Pilgrim } from '../types';
+import { requirePermission } from './useAuth';
+import { queryKeys } from './usePilgrims';
+
+interface EnrollCardVariables {
+  pilgrim: Pilgrim;
+  lockCard: boolean;
+  includeEmergencyInfo?: boolean;
+  revokeReason?: CardRevokeReason; // Why the pilgrim's current card is replaced
+}
+
+interface EnrollCardResult {
+  pilgrim: Pilgrim;
+  enrollment: CardEnrollmentResult;
+}
+
+// The details a finder needs when the pilgrim cannot speak for themselves. The
+// bus is the one the scanner holds them to - the free-text bus_number only
+// counts for pilgrims not assigned to a bus.
+export const buildEmergencyInfo = (pilgrim: Pilgrim, assignedBus?: Bus): EmergencyInfo => ({
+  name: pilgrim.full_name,
+  groupLeaderPhone: pilgrim.group_leader_phone,
+  bus: pilgrim.bus ? assignedBus?.number : pilgrim.bus_number,
+  hotel: pilgrim.hotel,
+  medicalNotes: pilgrim.medical_notes,
+});
+
+// Write a pilgrim's record to a blank tag and bind the tag to the pilgrim,
+// revoking the card they held before. The bind happens while the tag is still
+// held, before it is locked.
+export const useEnrollCard = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      pilgrim,
+      lockCard,
+      includeEmergencyInfo,
+      revokeReason,
+    }: EnrollCardVariables): Promise<EnrollCardResult> => {
+      requirePermission('manage_cards');
+
+      const assignedBus = includeEmergencyInfo && pilgrim.bus
+        ? await queryClient.fetchQuery({
+            queryKey: queryKeys.bus(pilgrim.bus),
+            queryFn: () => pocketbaseService.getBusById(pilgrim.bus!),
+          })
+        : undefined;
+
+      const bound: { pilgrim?: Pilgrim } = {};
+      const enrollment = await nfcService.enrollCard(pilgrim.id, {
+        lockCard,
+        emergencyInfo: includeEmergencyInfo ? buildEmergencyInfo(pilgrim, assignedBus) : undefined,
+        validateCard: async (cardId) => {
+          // Refuse to overwrite a card that belongs to another pilgrim
+          const owner = await pocketbaseService.getPilgrimByNfcId(cardId);
+          if (owner && owner.id !== pilgrim.id) {
+            throw new ServiceError('CARD_ALREADY_ASSIGNED');
+          }
+        },
+        bindCard: async (cardId, serial) => {
+          bound.pilgrim = await pocketbaseService.issueCard(pilgrim.id, { cardId, serial, revokeReason });
+        },
+      });
+
+      if (!enrollment.success || !bound.pilgrim) {
+        throw toServiceError(enrollment.error);
+      }
+
+      return { pilgrim: bound.pilgrim, enrollment };
+    },
+    onSuccess: async ({ pilgrim: updatedPilgrim }) => {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      queryClient.setQueryData(
+        queryKeys.pilgrim(updatedPilgrim.id),
+        updatedPilgrim
+      );
+
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) => {
+          if (!oldPilgrims) return [updatedPilgrim];
+
+          return oldPilgrims.map((pilgrim) =>
+            pilgrim.id === updatedPilgrim.id ? updatedPilgrim : pilgrim
+          );
+        }
+      );
+
+      // Card lookups may now resolve to a different pilgrim
+      queryClient.invalidateQueries({
+        queryKey: ['pilgrims', 'nfc'],
+        exact: false
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.pilgrimCards(updatedPilgrim.id) });
+    },
+    onError: async (error) => {
+      console.error('Failed to enroll card:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+};
+
+export default useEnrollCard;
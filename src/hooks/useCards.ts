@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pocketbaseService } from '../services/pocketbase';
+import { CardRevokeReason, Pilgrim } from '../types';
+import { requirePermission } from './useAuth';
+import { queryKeys } from './usePilgrims';
+
+// Card history of a pilgrim - the active card and every revoked one
+export const usePilgrimCards = (pilgrimId: string) => {
+  return useQuery({
+    queryKey: queryKeys.pilgrimCards(pilgrimId),
+    queryFn: () => pocketbaseService.getPilgrimCards(pilgrimId),
+    enabled: !!pilgrimId,
+  });
+};
+
+export const useRevokeCard = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ pilgrimId, cardId, reason }: {
+      pilgrimId: string;
+      cardId: string;
+      reason: CardRevokeReason;
+    }) => {
+      requirePermission('manage_cards');
+      return pocketbaseService.revokeCard(pilgrimId, cardId, reason);
+    },
+    onSuccess: (updatedPilgrim) => {
+      queryClient.setQueryData(
+        queryKeys.pilgrim(updatedPilgrim.id),
+        updatedPilgrim
+      );
+
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) => {
+          if (!oldPilgrims) return [updatedPilgrim];
+
+          return oldPilgrims.map((pilgrim) =>
+            pilgrim.id === updatedPilgrim.id ? updatedPilgrim : pilgrim
+          );
+        }
+      );
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.pilgrimCards(updatedPilgrim.id) });
+      queryClient.invalidateQueries({
+        queryKey: ['pilgrims', 'nfc'],
+        exact: false
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to revoke card:', error);
+    },
+  });
+};
@@ -0,0 +1,45 @@
+import { useCallback, useRef } from 'react';
+import { useAppStore } from '../store';
+
+// Recognise repeat reads of the same card inside the configured window, so a
+// pilgrim holding their card near the phone twice is not looked up twice
+export const useDuplicateScanGuard = () => {
+  const lastReads = useRef(new Map<string, number>());
+
+  // Whether the card repeats a recent read that was processed successfully
+  const isDuplicate = useCallback((cardId: string) => {
+    // Read the window at call time - continuous scan callbacks outlive renders
+    const { duplicateWindowMs } = useAppStore.getState().settings;
+    const now = Date.now();
+
+    // Drop reads that can no longer match
+    lastReads.current.forEach((readAt, id) => {
+      if (now - readAt > duplicateWindowMs) {
+        lastReads.current.delete(id);
+      }
+    });
+
+    const lastRead = lastReads.current.get(cardId);
+    if (duplicateWindowMs <= 0 || lastRead === undefined) {
+      return false;
+    }
+
+    // A card held against the reader keeps extending its own window
+    lastReads.current.set(cardId, now);
+    return true;
+  }, []);
+
+  // Remember a card once its read was processed - a failed read must stay
+  // retryable by tapping the same card again
+  const recordRead = useCallback((cardId: string) => {
+    lastReads.current.set(cardId, Date.now());
+  }, []);
+
+  const reset = useCallback(() => {
+    lastReads.current.clear();
+  }, []);
+
+  return { isDuplicate, recordRead, reset };
+};
+
+export default useDuplicateScanGuard;
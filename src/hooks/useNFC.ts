@@ -1,9 +1,10 @@
 import * as Haptics from 'expo-haptics';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Alert, Platform } from 'react-native';
 import { ARABIC_TEXTS } from '../localization';
+import { getErrorMessage, toServiceError } from '../services/errors';
 import { nfcService } from '../services/nfc';
-import { AppError, NFCScanResult } from '../types';
+import { AppError, NFCAdapterState, NFCScanResult } from '../types';
 
 interface UseNFCOptions {
   onScanSuccess?: (result: NFCScanResult) => void;
@@ -12,36 +13,40 @@ interface UseNFCOptions {
 }
 
 export const useNFC = (options: UseNFCOptions = {}) => {
-  const [isSupported, setIsSupported] = useState<boolean>(false);
-  const [isEnabled, setIsEnabled] = useState<boolean>(false);
+  // Start from what the service already knows, events keep it current
+  const [adapterState, setAdapterState] = useState<NFCAdapterState>(() => nfcService.getAdapterState());
   const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [isContinuous, setIsContinuous] = useState<boolean>(() => nfcService.isContinuousScanning());
   const [lastScanResult, setLastScanResult] = useState<NFCScanResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Aborts the single scan in progress - stopScanning and unmount use it
+  const scanControllerRef = useRef<AbortController | null>(null);
+
+  const isSupported = adapterState === 'enabled' || adapterState === 'disabled';
+  const isEnabled = adapterState === 'enabled';
+
   // Initialize NFC
   const initialize = useCallback(async () => {
     try {
+      // Support and enabled state arrive as adapter state events
       const supported = await nfcService.isSupported();
-      setIsSupported(supported);
-
       if (supported) {
-        const initialized = await nfcService.initialize();
-        if (initialized) {
-          const enabled = await nfcService.isEnabled();
-          setIsEnabled(enabled);
-        }
+        await nfcService.initialize();
+      } else {
+        setAdapterState('unsupported');
       }
 
       return supported;
     } catch (err: any) {
       console.error('NFC initialization error:', err);
-      setError(err.message || 'Failed to initialize NFC');
+      setError(getErrorMessage(err));
       return false;
     }
   }, []);
 
-  // Start scanning
-  const startScanning = useCallback(async () => {
+  // Start scanning - aborting the given signal cancels the scan
+  const startScanning = useCallback(async (signal?: AbortSignal) => {
     if (!isSupported) {
       const errorMsg = ARABIC_TEXTS.ERROR_NFC_NOT_SUPPORTED;
       setError(errorMsg);
@@ -71,11 +76,26 @@ export const useNFC = (options: UseNFCOptions = {}) => {
       return;
     }
 
-    setIsScanning(true);
     setError(null);
 
+    // Follow the caller's signal as well as our own
+    scanControllerRef.current?.abort();
+    const controller = new AbortController();
+    scanControllerRef.current = controller;
+    const abortScan = () => controller.abort();
+    if (signal?.aborted) {
+      abortScan();
+    }
+    signal?.addEventListener('abort', abortScan);
+
     try {
-      const result = await nfcService.startScanning();
+      const result = await nfcService.startScanning(controller.signal);
+
+      // A cancelled scan is neither a result nor an error
+      if (result.error === 'SCAN_CANCELLED') {
+        return;
+      }
+
       setLastScanResult(result);
 
       if (result.success) {
@@ -85,49 +105,90 @@ export const useNFC = (options: UseNFCOptions = {}) => {
       } else {
         // Error haptic feedback
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-        const errorMsg = mapErrorToArabic(result.error || 'UNKNOWN_ERROR');
-        setError(errorMsg);
-        options.onScanError?.(result.error as AppError || 'UNKNOWN_ERROR');
+        const { type, localizedMessage } = toServiceError(result.error);
+        setError(localizedMessage);
+        options.onScanError?.(type);
       }
     } catch (err: any) {
       console.error('NFC scanning error:', err);
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       
-      const errorMsg = mapErrorToArabic(err.message || 'UNKNOWN_ERROR');
-      setError(errorMsg);
+      const { type, localizedMessage } = toServiceError(err);
+      setError(localizedMessage);
       setLastScanResult({
         success: false,
-        error: err.message || 'UNKNOWN_ERROR',
+        error: type,
         timestamp: Date.now(),
       });
-      options.onScanError?.(err.message as AppError || 'UNKNOWN_ERROR');
+      options.onScanError?.(type);
     } finally {
-      setIsScanning(false);
+      signal?.removeEventListener('abort', abortScan);
+      if (scanControllerRef.current === controller) {
+        scanControllerRef.current = null;
+      }
+    }
+  }, [isSupported, isEnabled, options]);
+
+  // Start continuous scanning - every tag is handed to onTag until stopped
+  const startContinuousScanning = useCallback(async (onTag: (result: NFCScanResult) => void) => {
+    if (!isSupported || !isEnabled) {
+      const errorCode: AppError = !isSupported ? 'NFC_NOT_SUPPORTED' : 'NFC_DISABLED';
+      setError(getErrorMessage(errorCode));
+      options.onScanError?.(errorCode);
+      return false;
     }
+
+    setError(null);
+
+    const started = await nfcService.startContinuousScanning(async (result) => {
+      setLastScanResult(result);
+
+      if (result.success) {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      } else {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        setError(getErrorMessage(result.error));
+      }
+
+      onTag(result);
+    });
+
+    return started;
   }, [isSupported, isEnabled, options]);
 
+  // Stop continuous scanning
+  const stopContinuousScanning = useCallback(async () => {
+    try {
+      await nfcService.stopContinuousScanning();
+    } catch (err: any) {
+      console.error('Error stopping continuous NFC scan:', err);
+    }
+  }, []);
+
   // Stop scanning
   const stopScanning = useCallback(async () => {
     try {
+      if (nfcService.isContinuousScanning()) {
+        await stopContinuousScanning();
+        return;
+      }
+      scanControllerRef.current?.abort();
       await nfcService.stopScanning();
-      setIsScanning(false);
     } catch (err: any) {
       console.error('Error stopping NFC scan:', err);
     }
-  }, []);
+  }, [stopContinuousScanning]);
 
   // Check NFC status
   const checkStatus = useCallback(async () => {
     try {
-      const [supported, enabled] = await Promise.all([
-        nfcService.isSupported(),
-        nfcService.isEnabled(),
-      ]);
-
-      setIsSupported(supported);
-      setIsEnabled(enabled);
+      const state = await nfcService.refreshAdapterState();
+      setAdapterState(state);
 
-      return { supported, enabled };
+      return {
+        supported: state === 'enabled' || state === 'disabled',
+        enabled: state === 'enabled',
+      };
     } catch (err: any) {
       console.error('Error checking NFC status:', err);
       return { supported: false, enabled: false };
@@ -151,6 +212,33 @@ export const useNFC = (options: UseNFCOptions = {}) => {
     }
   }, []);
 
+  // Follow adapter state, scan lifecycle and errors published by the service
+  useEffect(() => {
+    return nfcService.addListener((event) => {
+      switch (event.type) {
+        case 'adapterStateChanged':
+          setAdapterState(event.state);
+          // Show or clear the NFC-off notice as the switch is flipped
+          setError((current) => {
+            if (event.state === 'disabled') return ARABIC_TEXTS.ERROR_NFC_DISABLED;
+            return current === ARABIC_TEXTS.ERROR_NFC_DISABLED ? null : current;
+          });
+          break;
+        case 'scanStarted':
+          setIsScanning(true);
+          setIsContinuous(event.continuous);
+          break;
+        case 'scanStopped':
+          setIsScanning(false);
+          setIsContinuous(false);
+          break;
+        case 'error':
+          setError(getErrorMessage(event.error));
+          break;
+      }
+    });
+  }, []);
+
   // Initialize on mount
   useEffect(() => {
     initialize();
@@ -170,15 +258,18 @@ export const useNFC = (options: UseNFCOptions = {}) => {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      scanControllerRef.current?.abort();
       nfcService.cleanup();
     };
   }, []);
 
   return {
     // State
+    adapterState,
     isSupported,
     isEnabled,
     isScanning,
+    isContinuous,
     lastScanResult,
     error,
 
@@ -186,6 +277,8 @@ export const useNFC = (options: UseNFCOptions = {}) => {
     initialize,
     startScanning,
     stopScanning,
+    startContinuousScanning,
+    stopContinuousScanning,
     checkStatus,
     clearError,
     clearLastScanResult,
@@ -193,24 +286,9 @@ export const useNFC = (options: UseNFCOptions = {}) => {
 
     // Computed
     canScan: isSupported && isEnabled,
+    canScanContinuously: isSupported && isEnabled && nfcService.supportsContinuousScanning(),
     needsPermission: isSupported && !isEnabled,
   };
 };
 
-// Helper function to map error codes to Arabic messages
-const mapErrorToArabic = (errorCode: string): string => {
-  const errorMap: Record<string, string> = {
-    'NFC_NOT_SUPPORTED': ARABIC_TEXTS.ERROR_NFC_NOT_SUPPORTED,
-    'NFC_DISABLED': ARABIC_TEXTS.ERROR_NFC_DISABLED,
-    'NFC_NOT_AVAILABLE_IN_EXPO_GO': ARABIC_TEXTS.ERROR_NFC_NOT_AVAILABLE_IN_EXPO_GO,
-    'SCAN_TIMEOUT': ARABIC_TEXTS.ERROR_SCAN_TIMEOUT,
-    'INVALID_CARD': ARABIC_TEXTS.ERROR_INVALID_CARD,
-    'NETWORK_ERROR': ARABIC_TEXTS.ERROR_NETWORK,
-    'SERVER_ERROR': ARABIC_TEXTS.ERROR_SERVER,
-    'UNKNOWN_ERROR': ARABIC_TEXTS.ERROR_UNKNOWN,
-  };
-
-  return errorMap[errorCode] || ARABIC_TEXTS.ERROR_UNKNOWN;
-};
-
 export default useNFC;
\ No newline at end of file
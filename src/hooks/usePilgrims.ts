@@ -1,15 +1,33 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { Alert, AppState } from 'react-native';
+import { ARABIC_TEXTS } from '../localization';
+import { toServiceError } from '../services/errors';
 import { pocketbaseService } from '../services/pocketbase';
-import { Pilgrim, SearchFilters } from '../types';
+import { useAppStore } from '../store';
+import { Pilgrim, PilgrimCreate, SearchFilters } from '../types';
+import { requirePermission } from './useAuth';
+import { toScanEventCreate } from './useScanEvents';
+import { useServerProfiles } from './useServerProfiles';
 
 // Query keys
 export const queryKeys = {
   pilgrims: ['pilgrims'] as const,
   pilgrim: (id: string) => ['pilgrims', id] as const,
   pilgrimByNfc: (nfcId: string) => ['pilgrims', 'nfc', nfcId] as const,
+  pilgrimCards: (id: string) => ['pilgrims', id, 'cards'] as const,
   pilgrimsSearch: (query: string) => ['pilgrims', 'search', query] as const,
   pilgrimsFilter: (filters: SearchFilters) => ['pilgrims', 'filter', filters] as const,
   pilgrimsStats: ['pilgrims', 'stats'] as const,
+  trips: ['trips'] as const,
+  tripLegs: (tripId: string) => ['trips', tripId, 'legs'] as const,
+  leg: (legId: string) => ['legs', legId] as const,
+  legBoardings: (legId: string) => ['legs', legId, 'boardings'] as const,
+  legStats: (legId: string, busId = '') => ['legs', legId, 'stats', busId] as const,
+  buses: ['buses'] as const,
+  bus: (id: string) => ['buses', id] as const,
+  pilgrimScanEvents: (pilgrimId: string) => ['scanEvents', 'pilgrim', pilgrimId] as const,
+  sessionScanEvents: (sessionId: string) => ['scanEvents', 'session', sessionId] as const,
 };
 
 // Pilgrims queries
@@ -57,12 +75,48 @@ export const usePilgrimsStats = () => {
 };
 
 // Pilgrims mutations
+
+// Status set by hand outside any leg - its manual_override entry in the audit
+// trail is written together with it
 export const useUpdatePilgrimStatus = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: ({ id, status }: { id: string; status: 'onboard' | 'offboard' }) =>
-      pocketbaseService.updatePilgrimStatus(id, status),
+      pocketbaseService.updatePilgrimStatus(id, status, toScanEventCreate({
+        type: 'manual_override',
+        result: 'SUCCESS',
+        pilgrimId: id,
+        status,
+        legId: '',
+        busId: '',
+      })),
+    // Show the new status straight away - the server answer replaces it, or
+    // onError puts the previous one back
+    onMutate: async ({ id, status }) => {
+      // Checked here rather than in mutationFn so a denied change is never shown
+      requirePermission('override_status');
+
+      await queryClient.cancelQueries({ queryKey: queryKeys.pilgrim(id), exact: true });
+      await queryClient.cancelQueries({ queryKey: queryKeys.pilgrims, exact: true });
+
+      const previousPilgrim = queryClient.getQueryData<Pilgrim>(queryKeys.pilgrim(id));
+      const previousPilgrims = queryClient.getQueryData<Pilgrim[]>(queryKeys.pilgrims);
+
+      if (previousPilgrim) {
+        queryClient.setQueryData(queryKeys.pilgrim(id), { ...previousPilgrim, status });
+      }
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) =>
+          oldPilgrims?.map((pilgrim) => (pilgrim.id === id ? { ...pilgrim, status } : pilgrim))
+      );
+
+      const pilgrimName =
+        previousPilgrim?.full_name ?? previousPilgrims?.find((pilgrim) => pilgrim.id === id)?.full_name;
+
+      return { previousPilgrim, previousPilgrims, pilgrimName };
+    },
     onSuccess: (updatedPilgrim) => {
       // Update the individual pilgrim cache
       queryClient.setQueryData(
@@ -84,6 +138,10 @@ export const useUpdatePilgrimStatus = () => {
 
       // Invalidate stats to get fresh counts
       queryClient.invalidateQueries({ queryKey: queryKeys.pilgrimsStats });
+      queryClient.invalidateQueries({
+        queryKey: ['scanEvents'],
+        exact: false
+      });
 
       // Invalidate search and filter queries
       queryClient.invalidateQueries({ 
@@ -95,8 +153,82 @@ export const useUpdatePilgrimStatus = () => {
         exact: false 
       });
     },
-    onError: (error) => {
+    onError: (error, { id }, context) => {
       console.error('Failed to update pilgrim status:', error);
+
+      // Roll back to what the caches held before the change
+      if (context?.previousPilgrim) {
+        queryClient.setQueryData(queryKeys.pilgrim(id), context.previousPilgrim);
+      }
+      if (context?.previousPilgrims) {
+        queryClient.setQueryData(queryKeys.pilgrims, context.previousPilgrims);
+      }
+
+      const serviceError = toServiceError(error);
+      if (!serviceError.silent) {
+        const reason = serviceError.localizedMessage;
+        Alert.alert(
+          ARABIC_TEXTS.ERROR_STATUS_NOT_SAVED,
+          context?.pilgrimName ? `${context.pilgrimName}\n${reason}` : reason
+        );
+      }
+    },
+  });
+};
+
+// Status change for a selection of pilgrims, each with its manual_override
+// entry in the audit trail - resolves with the records that changed and the
+// ones that did not, it only throws when nothing was sent
+export const useBulkUpdatePilgrimStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ids, status, legId, busId }: {
+      ids: string[];
+      status: 'onboard' | 'offboard';
+      legId?: string; // Leg whose boardings change along with the status
+      busId?: string;
+    }) => {
+      requirePermission('bulk_update');
+      return pocketbaseService.updatePilgrimsStatus(ids, status, legId, busId, toScanEventCreate({
+        type: 'manual_override',
+        result: 'SUCCESS',
+        status,
+        legId: legId || '',
+        busId: busId || '',
+      }));
+    },
+    onSuccess: ({ updated }, { legId }) => {
+      const updatedById = new Map(updated.map((pilgrim) => [pilgrim.id, pilgrim]));
+
+      updated.forEach((pilgrim) => {
+        queryClient.setQueryData(queryKeys.pilgrim(pilgrim.id), pilgrim);
+      });
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) =>
+          oldPilgrims?.map((pilgrim) => updatedById.get(pilgrim.id) ?? pilgrim)
+      );
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.pilgrimsStats });
+      queryClient.invalidateQueries({
+        queryKey: ['scanEvents'],
+        exact: false
+      });
+      if (legId) {
+        queryClient.invalidateQueries({ queryKey: ['legs', legId] });
+      }
+      queryClient.invalidateQueries({
+        queryKey: ['pilgrims', 'search'],
+        exact: false
+      });
+      queryClient.invalidateQueries({
+        queryKey: ['pilgrims', 'filter'],
+        exact: false
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to update pilgrims status:', error);
     },
   });
 };
@@ -105,7 +237,10 @@ export const useCreatePilgrim = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: pocketbaseService.createPilgrim,
+    mutationFn: (pilgrimData: PilgrimCreate) => {
+      requirePermission('edit_pilgrim');
+      return pocketbaseService.createPilgrim(pilgrimData);
+    },
     onSuccess: (newPilgrim) => {
       // Add to the pilgrims list cache
       queryClient.setQueryData(
@@ -129,8 +264,10 @@ export const useUpdatePilgrim = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Pilgrim> }) =>
-      pocketbaseService.updatePilgrim(id, data),
+    mutationFn: ({ id, data }: { id: string; data: Partial<Pilgrim> }) => {
+      requirePermission('edit_pilgrim');
+      return pocketbaseService.updatePilgrim(id, data);
+    },
     onSuccess: (updatedPilgrim) => {
       // Update caches similar to status update
       queryClient.setQueryData(
@@ -169,7 +306,10 @@ export const useDeletePilgrim = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: string) => pocketbaseService.deletePilgrim(id),
+    mutationFn: (id: string) => {
+      requirePermission('delete_pilgrim');
+      return pocketbaseService.deletePilgrim(id);
+    },
     onSuccess: (_, deletedId) => {
       // Remove from pilgrims list cache
       queryClient.setQueryData(
@@ -202,6 +342,133 @@ export const useDeletePilgrim = () => {
   });
 };
 
+// How often the roster is refetched where realtime is unavailable
+const ROSTER_POLL_INTERVAL = 30 * 1000;
+
+// Keep the roster caches in step with other devices while the app is in the
+// foreground. Events land straight in the caches; anything missed in the
+// background or while disconnected is refetched. Switching server or signing
+// in drops the subscriptions of the old client, so they are made again.
+export const useRealtimePilgrims = () => {
+  const queryClient = useQueryClient();
+  const serverUrl = useServerProfiles().activeServer.url;
+  const authToken = useAppStore((state) => state.auth?.token);
+
+  useEffect(() => {
+    let isRunning = false;
+    let hasRun = false;
+    let stopSubscription: (() => Promise<void>) | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    // Everything under ['pilgrims'] - list, records, stats, search and filter
+    const refetchRoster = () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pilgrims });
+      queryClient.invalidateQueries({ queryKey: ['legs'] });
+    };
+
+    const applyEvent = ({ action, record }: { action: string; record: Pilgrim }) => {
+      if (action === 'delete') {
+        queryClient.setQueryData(
+          queryKeys.pilgrims,
+          (oldPilgrims: Pilgrim[] | undefined) =>
+            oldPilgrims?.filter((pilgrim) => pilgrim.id !== record.id)
+        );
+        queryClient.removeQueries({ queryKey: queryKeys.pilgrim(record.id), exact: true });
+      } else {
+        queryClient.setQueryData(queryKeys.pilgrim(record.id), record);
+        queryClient.setQueryData(
+          queryKeys.pilgrims,
+          (oldPilgrims: Pilgrim[] | undefined) => {
+            if (!oldPilgrims) return oldPilgrims;
+
+            return oldPilgrims.some((pilgrim) => pilgrim.id === record.id)
+              ? oldPilgrims.map((pilgrim) => (pilgrim.id === record.id ? record : pilgrim))
+              : [...oldPilgrims, record];
+          }
+        );
+      }
+
+      // Counts and breakdowns cannot be patched from a single record
+      queryClient.invalidateQueries({ queryKey: queryKeys.pilgrimsStats });
+      queryClient.invalidateQueries({ queryKey: ['legs'] });
+      queryClient.invalidateQueries({
+        queryKey: ['pilgrims', 'search'],
+        exact: false
+      });
+      queryClient.invalidateQueries({
+        queryKey: ['pilgrims', 'filter'],
+        exact: false
+      });
+    };
+
+    const startPolling = () => {
+      pollTimer = setInterval(refetchRoster, ROSTER_POLL_INTERVAL);
+    };
+
+    const start = async () => {
+      if (isRunning) return;
+      isRunning = true;
+
+      // Coming back from the background - events were missed meanwhile
+      if (hasRun) {
+        refetchRoster();
+      }
+      hasRun = true;
+
+      if (!pocketbaseService.supportsRealtime()) {
+        startPolling();
+        return;
+      }
+
+      try {
+        const stop = await pocketbaseService.subscribeToPilgrims(applyEvent, refetchRoster);
+        if (!isRunning) {
+          // Backgrounded while connecting
+          await stop();
+          return;
+        }
+        stopSubscription = stop;
+      } catch (error) {
+        console.error('Realtime roster updates unavailable, polling instead:', error);
+        if (isRunning) {
+          startPolling();
+        }
+      }
+    };
+
+    const stop = () => {
+      isRunning = false;
+
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+      stopSubscription?.().catch((error) => {
+        console.error('Failed to unsubscribe from pilgrims:', error);
+      });
+      stopSubscription = null;
+    };
+
+    if (AppState.currentState !== 'background') {
+      start();
+    }
+
+    // 'inactive' is left alone - iOS passes through it for the NFC scan sheet
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        start();
+      } else if (status === 'background') {
+        stop();
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      stop();
+    };
+  }, [queryClient, serverUrl, authToken]);
+};
+
 // Utility hooks
 export const useInvalidatePilgrims = () => {
   const queryClient = useQueryClient();
@@ -0,0 +1,72 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { pocketbaseService } from '../services/pocketbase';
+import { useAppStore } from '../store';
+import { BoardingStatus, ScanEventCreate, ScanEventType } from '../types';
+import { queryKeys } from './usePilgrims';
+
+export interface ScanEventInput {
+  type: ScanEventType;
+  result: string; // 'SUCCESS' or an AppError code
+  pilgrimId?: string;
+  cardId?: string;
+  status?: BoardingStatus;
+  legId?: string;
+  busId?: string;
+}
+
+// Fill in the operator, device and session the event happened under - status
+// changes send it with the change itself
+export const toScanEventCreate = (event: ScanEventInput): ScanEventCreate => {
+  const { auth, deviceId, sessionStats, activeLegId, activeBusId } = useAppStore.getState();
+
+  return {
+    type: event.type,
+    result: event.result,
+    pilgrim: event.pilgrimId || '',
+    card_id: event.cardId || '',
+    status: event.status || '',
+    leg: event.legId ?? activeLegId ?? '',
+    bus: event.busId ?? activeBusId ?? '',
+    operator: auth?.operator.name || auth?.operator.email || '',
+    device_id: deviceId,
+    session_id: sessionStats.sessionId || '',
+    timestamp: new Date().toISOString(),
+  };
+};
+
+// Record scan events that come with no status change, e.g. failed scans, with
+// the operator, device and session filled in. Logging never fails the scan it
+// describes - errors are only reported.
+export const useScanEventLogger = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (event: ScanEventInput) => {
+    try {
+      await pocketbaseService.createScanEvent(toScanEventCreate(event));
+
+      queryClient.invalidateQueries({
+        queryKey: ['scanEvents'],
+        exact: false
+      });
+    } catch (error) {
+      console.error('Failed to record scan event:', error);
+    }
+  }, [queryClient]);
+};
+
+export const usePilgrimScanEvents = (pilgrimId: string) => {
+  return useQuery({
+    queryKey: queryKeys.pilgrimScanEvents(pilgrimId),
+    queryFn: () => pocketbaseService.getPilgrimScanEvents(pilgrimId),
+    enabled: !!pilgrimId,
+  });
+};
+
+export const useSessionScanEvents = (sessionId: string) => {
+  return useQuery({
+    queryKey: queryKeys.sessionScanEvents(sessionId),
+    queryFn: () => pocketbaseService.getSessionScanEvents(sessionId),
+    enabled: !!sessionId,
+  });
+};
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAppStore } from '../store';
+import { DEFAULT_SERVER_PROFILE } from '../types';
+
+// The built-in profile and the ones added on the device
+export const useServerProfiles = () => {
+  const serverProfiles = useAppStore((state) => state.serverProfiles);
+  const activeServerId = useAppStore((state) => state.activeServerId);
+
+  const profiles = [DEFAULT_SERVER_PROFILE, ...serverProfiles];
+
+  return {
+    profiles,
+    activeServerId,
+    activeServer: profiles.find((profile) => profile.id === activeServerId) || DEFAULT_SERVER_PROFILE,
+  };
+};
+
+export const useSwitchServer = () => {
+  const queryClient = useQueryClient();
+  const switchServer = useAppStore((state) => state.switchServer);
+
+  return useMutation({
+    mutationFn: (profileId: string) => switchServer(profileId),
+    // The health check already decided - retrying only keeps the operator waiting
+    retry: false,
+    onSuccess: () => {
+      // Nothing cached from the previous server applies to the new one
+      queryClient.clear();
+    },
+    onError: (error) => {
+      console.error('Failed to switch server:', error);
+    },
+  });
+};
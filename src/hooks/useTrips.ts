@@ -0,0 +1,180 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Alert } from 'react-native';
+import { ARABIC_TEXTS } from '../localization';
+import { toServiceError } from '../services/errors';
+import { pocketbaseService } from '../services/pocketbase';
+import { useAppStore } from '../store';
+import { AppError, BoardingStatus, LegBoarding, Pilgrim } from '../types';
+import { requirePermission } from './useAuth';
+import { queryKeys } from './usePilgrims';
+import { toScanEventCreate } from './useScanEvents';
+
+export const useTrips = () => {
+  return useQuery({
+    queryKey: queryKeys.trips,
+    queryFn: () => pocketbaseService.getTrips(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useTripLegs = (tripId: string) => {
+  return useQuery({
+    queryKey: queryKeys.tripLegs(tripId),
+    queryFn: () => pocketbaseService.getTripLegs(tripId),
+    enabled: !!tripId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useLeg = (legId: string) => {
+  return useQuery({
+    queryKey: queryKeys.leg(legId),
+    queryFn: () => pocketbaseService.getLegById(legId),
+    enabled: !!legId,
+  });
+};
+
+// The leg selected for scanning, if any
+export const useActiveLeg = () => {
+  const activeLegId = useAppStore((state) => state.activeLegId);
+  return useLeg(activeLegId || '');
+};
+
+export const useLegBoardings = (legId: string) => {
+  return useQuery({
+    queryKey: queryKeys.legBoardings(legId),
+    queryFn: () => pocketbaseService.getLegBoardings(legId),
+    enabled: !!legId,
+  });
+};
+
+// Stats for the whole leg, or only the pilgrims of one bus
+export const useLegStats = (legId: string, busId?: string) => {
+  return useQuery({
+    queryKey: queryKeys.legStats(legId, busId),
+    queryFn: () => pocketbaseService.getLegStats(legId, busId),
+    enabled: !!legId,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+};
+
+// Every boarding change lands in the audit trail, written together with the
+// change so one cannot be saved without the other. The change shows straight
+// away and is rolled back if the server refuses it - notifyOnError: false
+// leaves telling the operator to the caller, e.g. continuous scanning
+export const useUpdateLegBoarding = ({ notifyOnError = true }: { notifyOnError?: boolean } = {}) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ legId, pilgrimId, status, busId, cardId, override, manual }: {
+      legId: string;
+      pilgrimId: string;
+      status: BoardingStatus;
+      busId?: string;
+      cardId?: string;
+      override?: AppError; // Check the operator chose to override, e.g. WRONG_BUS
+      manual?: boolean; // Set by hand rather than by a scan
+    }) => pocketbaseService.updateLegBoardingStatus(legId, pilgrimId, status, busId, toScanEventCreate({
+      type: override || manual ? 'manual_override' : 'status_change',
+      result: override || 'SUCCESS',
+      pilgrimId,
+      cardId,
+      status,
+      legId,
+      busId,
+    })),
+    onMutate: async ({ legId, pilgrimId, status, override, manual }) => {
+      // Checked here rather than in mutationFn so a denied change is never shown
+      requirePermission(override || manual ? 'override_status' : 'scan');
+
+      await queryClient.cancelQueries({ queryKey: queryKeys.legBoardings(legId), exact: true });
+      await queryClient.cancelQueries({ queryKey: queryKeys.pilgrim(pilgrimId), exact: true });
+      await queryClient.cancelQueries({ queryKey: queryKeys.pilgrims, exact: true });
+
+      const previousBoardings = queryClient.getQueryData<LegBoarding[]>(queryKeys.legBoardings(legId));
+      const previousPilgrim = queryClient.getQueryData<Pilgrim>(queryKeys.pilgrim(pilgrimId));
+      const previousPilgrims = queryClient.getQueryData<Pilgrim[]>(queryKeys.pilgrims);
+
+      // A pilgrim without a boarding on this leg gets one from the server answer
+      queryClient.setQueryData(
+        queryKeys.legBoardings(legId),
+        (oldBoardings: LegBoarding[] | undefined) =>
+          oldBoardings?.map((entry) => (entry.pilgrim === pilgrimId ? { ...entry, status } : entry))
+      );
+      if (previousPilgrim) {
+        queryClient.setQueryData(queryKeys.pilgrim(pilgrimId), { ...previousPilgrim, status });
+      }
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) =>
+          oldPilgrims?.map((pilgrim) => (pilgrim.id === pilgrimId ? { ...pilgrim, status } : pilgrim))
+      );
+
+      const pilgrimName =
+        previousPilgrim?.full_name ?? previousPilgrims?.find((pilgrim) => pilgrim.id === pilgrimId)?.full_name;
+
+      return { previousBoardings, previousPilgrim, previousPilgrims, pilgrimName };
+    },
+    onSuccess: ({ boarding, pilgrim: updatedPilgrim }, { legId }) => {
+      // Update the leg's boarding list cache
+      queryClient.setQueryData(
+        queryKeys.legBoardings(legId),
+        (oldBoardings: LegBoarding[] | undefined) => {
+          if (!oldBoardings) return [boarding];
+
+          return oldBoardings.some((entry) => entry.id === boarding.id)
+            ? oldBoardings.map((entry) => (entry.id === boarding.id ? boarding : entry))
+            : [...oldBoardings, boarding];
+        }
+      );
+
+      // The pilgrim's status mirrors their latest leg
+      queryClient.setQueryData(
+        queryKeys.pilgrim(updatedPilgrim.id),
+        updatedPilgrim
+      );
+
+      queryClient.setQueryData(
+        queryKeys.pilgrims,
+        (oldPilgrims: Pilgrim[] | undefined) => {
+          if (!oldPilgrims) return [updatedPilgrim];
+
+          return oldPilgrims.map((pilgrim) =>
+            pilgrim.id === updatedPilgrim.id ? updatedPilgrim : pilgrim
+          );
+        }
+      );
+
+      // Invalidate stats to get fresh counts
+      queryClient.invalidateQueries({ queryKey: ['legs', legId, 'stats'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.pilgrimsStats });
+      queryClient.invalidateQueries({
+        queryKey: ['scanEvents'],
+        exact: false
+      });
+    },
+    onError: (error, { legId, pilgrimId }, context) => {
+      console.error('Failed to update leg boarding:', error);
+
+      // Roll back to what the caches held before the change
+      if (context?.previousBoardings) {
+        queryClient.setQueryData(queryKeys.legBoardings(legId), context.previousBoardings);
+      }
+      if (context?.previousPilgrim) {
+        queryClient.setQueryData(queryKeys.pilgrim(pilgrimId), context.previousPilgrim);
+      }
+      if (context?.previousPilgrims) {
+        queryClient.setQueryData(queryKeys.pilgrims, context.previousPilgrims);
+      }
+
+      const serviceError = toServiceError(error);
+      if (notifyOnError && !serviceError.silent) {
+        const reason = serviceError.localizedMessage;
+        Alert.alert(
+          ARABIC_TEXTS.ERROR_STATUS_NOT_SAVED,
+          context?.pilgrimName ? `${context.pilgrimName}\n${reason}` : reason
+        );
+      }
+    },
+  });
+};
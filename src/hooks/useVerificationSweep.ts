@@ -0,0 +1,172 @@
+import { useCallback, useMemo, useState } from 'react';
+import { toServiceError } from '../services/errors';
+import { AppError, NFCScanResult, Pilgrim, VerificationEntry } from '../types';
+import { usePilgrims } from './usePilgrims';
+
+interface SweepState {
+  currentId: string | null;
+  results: Record<string, VerificationEntry>;
+  lastPilgrimId: string | null; // Pilgrim of the most recent result
+  pausedBy: AppError | null; // Reader failure that stopped the sweep
+}
+
+const INITIAL_STATE: SweepState = { currentId: null, results: {}, lastPilgrimId: null, pausedBy: null };
+
+// Failures that say something about the card that was tapped - anything else
+// (NFC off, no reader, a session that would not start) says nothing about
+// the pilgrim and must not be recorded against them
+const CARD_READ_ERRORS: readonly string[] = [
+  'INVALID_CARD',
+  'CARD_READ_FAILED',
+  'AMBIGUOUS_CARD',
+  'FORGED_CARD',
+];
+
+// Walk the roster card by card before departure, recording whether each
+// pilgrim's card reads and maps back to them
+export const useVerificationSweep = () => {
+  const { data: pilgrims, isLoading, error } = usePilgrims();
+  const [state, setState] = useState<SweepState>(INITIAL_STATE);
+
+  // Roster in seat order - the order pilgrims line up to board
+  const roster = useMemo(
+    () => (pilgrims || []).slice().sort((a, b) => a.seat_number - b.seat_number),
+    [pilgrims]
+  );
+
+  // The first pilgrim without a result after the given one, wrapping around
+  const nextPending = useCallback((results: Record<string, VerificationEntry>, afterId: string | null) => {
+    const start = afterId ? roster.findIndex((pilgrim) => pilgrim.id === afterId) + 1 : 0;
+
+    for (let offset = 0; offset < roster.length; offset++) {
+      const pilgrim = roster[(start + offset) % roster.length];
+      if (!results[pilgrim.id]) {
+        return pilgrim.id;
+      }
+    }
+    return null;
+  }, [roster]);
+
+  // The selected pilgrim, or the first pending one once the roster loads
+  const resolveCurrent = useCallback((sweep: SweepState) => {
+    return sweep.currentId && roster.some((pilgrim) => pilgrim.id === sweep.currentId)
+      ? sweep.currentId
+      : nextPending(sweep.results, null);
+  }, [roster, nextPending]);
+
+  const currentId = resolveCurrent(state);
+  const currentPilgrim = roster.find((pilgrim) => pilgrim.id === currentId) || null;
+
+  // Record a scan against the pilgrim being verified and move to the next one
+  const recordScan = useCallback((result: NFCScanResult) => {
+    // Nothing was tapped - keep waiting for the same pilgrim
+    if (!result.success && result.error === 'SCAN_TIMEOUT') {
+      return;
+    }
+
+    // The reader itself failed - stop until the operator starts scanning again
+    if (!result.success && !CARD_READ_ERRORS.includes(result.error ?? '')) {
+      setState((previous) => ({ ...previous, pausedBy: toServiceError(result.error).type }));
+      return;
+    }
+
+    setState((previous) => {
+      const expectedId = resolveCurrent(previous);
+      if (!expectedId || previous.pausedBy) {
+        return previous;
+      }
+
+      let entry: VerificationEntry;
+
+      if (!result.success || !result.cardId) {
+        entry = {
+          status: 'unreadable',
+          cardId: result.cardId,
+          error: result.error,
+          timestamp: result.timestamp,
+        };
+      } else {
+        // Match against the roster so the sweep needs no lookup per tap
+        const owner = roster.find((pilgrim) => pilgrim.nfc_card_id === result.cardId);
+        const isMatch = owner?.id === expectedId
+          && (!result.pilgrimId || result.pilgrimId === expectedId);
+
+        entry = {
+          status: isMatch ? 'verified' : 'mismatch',
+          cardId: result.cardId,
+          matchedPilgrimId: owner?.id,
+          timestamp: result.timestamp,
+        };
+      }
+
+      const results = { ...previous.results, [expectedId]: entry };
+      return {
+        ...previous,
+        currentId: nextPending(results, expectedId),
+        results,
+        lastPilgrimId: expectedId,
+      };
+    });
+  }, [roster, nextPending, resolveCurrent]);
+
+  // Verify a specific pilgrim next, e.g. when they come out of order
+  const selectPilgrim = useCallback((pilgrim: Pilgrim) => {
+    setState((previous) => ({ ...previous, currentId: pilgrim.id }));
+  }, []);
+
+  // Leave the current pilgrim for later
+  const skip = useCallback(() => {
+    setState((previous) => ({
+      ...previous,
+      currentId: nextPending(previous.results, resolveCurrent(previous)),
+    }));
+  }, [nextPending, resolveCurrent]);
+
+  // Pick the sweep up again after a reader failure
+  const resume = useCallback(() => {
+    setState((previous) => ({ ...previous, pausedBy: null }));
+  }, []);
+
+  const reset = useCallback(() => {
+    setState(INITIAL_STATE);
+  }, []);
+
+  const summary = useMemo(() => {
+    const entries = Object.values(state.results);
+    return {
+      total: roster.length,
+      verified: entries.filter((entry) => entry.status === 'verified').length,
+      mismatch: entries.filter((entry) => entry.status === 'mismatch').length,
+      unreadable: entries.filter((entry) => entry.status === 'unreadable').length,
+    };
+  }, [roster, state.results]);
+
+  // Everyone whose card has not been confirmed, in roster order
+  const unverifiedPilgrims = useMemo(
+    () => roster.filter((pilgrim) => state.results[pilgrim.id]?.status !== 'verified'),
+    [roster, state.results]
+  );
+
+  const lastPilgrim = roster.find((pilgrim) => pilgrim.id === state.lastPilgrimId) || null;
+  const lastEntry = state.lastPilgrimId ? state.results[state.lastPilgrimId] : undefined;
+
+  return {
+    roster,
+    results: state.results,
+    currentPilgrim,
+    lastPilgrim,
+    lastEntry,
+    summary,
+    unverifiedPilgrims,
+    isLoading,
+    error,
+    pausedBy: state.pausedBy,
+    recordScan,
+    selectPilgrim,
+    skip,
+    resume,
+    reset,
+  };
+};
+
+export default useVerificationSweep;
@@ -1,6 +1,8 @@
 // Arabic localization constants for the NFC Pilgrim Management App
 // All text should be in Arabic with proper RTL support
 
+import { AppError } from '../types';
+
 export const ARABIC_TEXTS = {
   // App Title
   APP_NAME: 'نظام إدارة الحجاج بالرقاقة الذكية',
@@ -36,15 +38,193 @@ export const ARABIC_TEXTS = {
   NFC_FAILED: 'فشل في المسح',
   PLACE_CARD: 'ضع الرقاقة بالقرب من الجهاز',
   SCAN_ANOTHER: 'امسح رقاقة أخرى',
+  CONTINUOUS_SCAN: 'مسح مستمر',
+  CONTINUOUS_SCAN_ACTIVE: 'المسح المستمر مفعل - مرر الرقاقات واحدة تلو الأخرى',
+  STOP_CONTINUOUS_SCAN: 'إيقاف المسح المستمر',
+  ENROLL_CARD: 'تسجيل رقاقة',
+  WRITE_CARD: 'كتابة الرقاقة',
+  LOCK_CARD: 'قفل الرقاقة بعد الكتابة',
+  LOCK_CARD_HINT: 'تصبح الرقاقة للقراءة فقط ولا يمكن تعديلها لاحقاً',
+  WRITE_EMERGENCY_INFO: 'كتابة بيانات الطوارئ على الرقاقة',
+  WRITE_EMERGENCY_INFO_HINT: 'الاسم وهاتف المشرف والحافلة والفندق والملاحظات الطبية - تُقرأ دون اتصال بالإنترنت',
+  PLACE_BLANK_CARD: 'ضع رقاقة فارغة بالقرب من الجهاز',
+  SELECTED_PILGRIM: 'الحاج المختار',
+  CHOOSE_ANOTHER_PILGRIM: 'اختيار حاج آخر',
+  HAS_CARD: 'لديه رقاقة مسجلة',
+  CURRENT_CARD: 'الرقاقة الحالية',
+  ENROLL_ANOTHER: 'تسجيل رقاقة أخرى',
+  REISSUE_CARD: 'إصدار رقاقة بديلة',
+  REVOKE_CARD: 'الإبلاغ عن فقدان الرقاقة',
+  CARD_HISTORY: 'سجل الرقاقات',
+  NO_CARD_HISTORY: 'لا يوجد سجل رقاقات',
+  CARD_ACTIVE: 'فعالة',
+  CARD_REVOKED: 'ملغاة',
+  REVOKE_REASON_PROMPT: 'ما سبب استبدال الرقاقة الحالية؟ سيتم إلغاء الرقاقة القديمة.',
+  REVOKE_REASONS: {
+    lost: 'مفقودة',
+    damaged: 'تالفة',
+    stolen: 'مسروقة',
+    replaced: 'مستبدلة',
+  },
+  SIMULATED_READER: 'قارئ NFC تجريبي',
+  SIMULATED_CARD_ID: 'رقم الرقاقة',
+  SIMULATED_TAP: 'مسح',
+  SIMULATED_TIMEOUT: 'انتهاء المهلة',
+  SIMULATED_INVALID: 'رقاقة غير صالحة',
+  SIMULATED_NFC_OFF: 'إيقاف NFC',
+  SIMULATED_NFC_ON: 'تشغيل NFC',
+  DUPLICATE_SCAN: 'تمت قراءة هذه الرقاقة للتو - لا حاجة لإعادة المسح',
   
   // Session Stats
   TOTAL_SCANNED: 'إجمالي الممسوحة',
   SUCCESSFUL_SCANS: 'المسح الناجح',
   FAILED_SCANS: 'المسح الفاشل',
+  DUPLICATE_SCANS: 'المسح المكرر',
   ONBOARD_COUNT: 'عدد الصاعدين',
   OFFBOARD_COUNT: 'عدد النازلين',
   SESSION_DURATION: 'مدة الجلسة',
+
+  // Roster breakdowns
+  STATS_BREAKDOWN: 'توزيع الحجاج',
+  BREAKDOWN_TITLES: {
+    bus: 'حسب الحافلة',
+    nationality: 'حسب الجنسية',
+    sex: 'حسب الجنس',
+  },
   
+  // Settings
+  DUPLICATE_WINDOW: 'تجاهل المسح المكرر',
+  DUPLICATE_WINDOW_HINT: 'قراءة نفس الرقاقة مرة أخرى خلال هذه المدة تعتبر تكراراً ولا تحسب كمسح فاشل',
+  DISABLED: 'معطل',
+  SCAN_TIMEOUT_SETTING: 'مهلة المسح',
+  SCAN_TIMEOUT_HINT: 'المدة التي ينتظرها الجهاز لتقريب الرقاقة قبل إلغاء المسح',
+  NO_TIMEOUT: 'بدون مهلة',
+
+  // Found Pilgrim
+  FOUND_PILGRIM: 'حاج تائه',
+  READ_EMERGENCY_CARD: 'قراءة بطاقة الطوارئ',
+  INSTRUCTION_FOUND: 'ضع رقاقة الحاج بالقرب من الجهاز لعرض بيانات الطوارئ المخزنة عليها - لا يلزم اتصال بالإنترنت',
+  GROUP_LEADER_PHONE: 'هاتف المشرف',
+  BUS_NUMBER: 'الحافلة',
+  HOTEL: 'الفندق',
+  MEDICAL_NOTES: 'ملاحظات طبية',
+  CALL_GROUP_LEADER: 'الاتصال بالمشرف',
+  NOT_PROVIDED: 'غير متوفر',
+
+  // Verification Sweep
+  VERIFY_CARDS: 'التحقق من الرقاقات قبل المغادرة',
+  INSTRUCTION_VERIFY: 'امسح رقاقة كل حاج بالترتيب للتأكد من أنها تُقرأ وتعود إليه',
+  VERIFY_CURRENT: 'الحاج المطلوب مسح رقاقته',
+  VERIFY_COMPLETE: 'تم المرور على جميع الحجاج',
+  VERIFY_SKIP: 'تخطي',
+  VERIFY_FINISH: 'إنهاء التحقق',
+  VERIFY_RESUME: 'متابعة التحقق',
+  VERIFY_PAUSED: 'توقف التحقق - ابدأ المسح من جديد للمتابعة',
+  VERIFY_RESTART: 'بدء تحقق جديد',
+  VERIFY_UNVERIFIED: 'حجاج لم يتم التحقق من رقاقاتهم',
+  VERIFY_ALL_VERIFIED: 'تم التحقق من رقاقات جميع الحجاج',
+  VERIFY_NOT_SCANNED: 'لم تُمسح',
+  VERIFY_CARD_BELONGS_TO: 'الرقاقة مسجلة باسم',
+  VERIFY_CARD_UNKNOWN: 'الرقاقة غير مسجلة لأي حاج',
+  VERIFICATION_STATUS: {
+    verified: 'تم التحقق',
+    mismatch: 'رقاقة غير مطابقة',
+    unreadable: 'رقاقة غير مقروءة',
+  },
+
+  // Trips
+  TRIPS: 'الرحلات',
+  SELECT_LEG: 'اختيار مرحلة الرحلة',
+  ACTIVE_LEG: 'المرحلة الحالية',
+  NO_ACTIVE_LEG: 'لم يتم اختيار مرحلة',
+  CHANGE_LEG: 'تغيير المرحلة',
+  NO_TRIPS: 'لا توجد رحلات',
+  NO_LEGS: 'لا توجد مراحل لهذه الرحلة',
+  LEG_STATUS: {
+    scheduled: 'مجدولة',
+    active: 'جارية',
+    completed: 'مكتملة',
+  },
+
+  // Buses
+  BUSES: 'الحافلات',
+  BUS: 'الحافلة',
+  SELECT_BUS: 'اختيار الحافلة',
+  ACTIVE_BUS: 'الحافلة الحالية',
+  NO_ACTIVE_BUS: 'لم يتم اختيار حافلة',
+  CHANGE_BUS: 'تغيير الحافلة',
+  NO_BUSES: 'لا توجد حافلات',
+  BUS_ASSIGNMENT: 'الحافلة المخصصة',
+  UNASSIGNED: 'غير مخصص',
+  PLATE_NUMBER: 'رقم اللوحة',
+  DRIVER: 'السائق',
+  CAPACITY: 'السعة',
+  ASSIGNED_PILGRIMS: 'الحجاج المخصصون',
+  WRONG_BUS_TITLE: 'حافلة خاطئة',
+  BOARD_ANYWAY: 'تسجيل الصعود على أي حال',
+
+  // Audit trail
+  SCAN_HISTORY: 'سجل المسح',
+  NO_SCAN_HISTORY: 'لا توجد عمليات مسجلة',
+  SCAN_EVENT_SUCCESS: 'تمت العملية',
+  SCAN_EVENT_TYPES: {
+    status_change: 'تغيير الحالة',
+    failed_scan: 'مسح فاشل',
+    manual_override: 'تعديل يدوي',
+  },
+
+  // Operator accounts
+  LOGIN: 'تسجيل الدخول',
+  LOGOUT: 'تسجيل الخروج',
+  CONFIRM_LOGOUT: 'هل تريد تسجيل الخروج؟',
+  EMAIL: 'البريد الإلكتروني',
+  PASSWORD: 'كلمة المرور',
+  INSTRUCTION_LOGIN: 'سجل الدخول بحساب المشرف الخاص بك',
+  SIGNED_IN_AS: 'مسجل الدخول باسم',
+  OPERATOR_ROLES: {
+    scanner: 'ماسح',
+    group_leader: 'قائد مجموعة',
+    supervisor: 'مشرف',
+    admin: 'مدير',
+  },
+
+  // Server profiles
+  SERVERS: 'الخوادم',
+  SERVER_NAME: 'اسم الخادم',
+  ADD_SERVER: 'إضافة خادم',
+  SWITCH_SERVER: 'تبديل',
+  ACTIVE_SERVER: 'الخادم الحالي',
+  CHECKING_SERVER: 'جاري التحقق من الخادم...',
+  INSTRUCTION_SERVERS: 'اختر الخادم الذي يتصل به التطبيق - يتم التحقق من الاتصال قبل التبديل',
+  CONFIRM_SWITCH_SERVER: 'سيتم تسجيل الخروج ومسح البيانات المحملة. هل تريد التبديل إلى هذا الخادم؟',
+  CONFIRM_REMOVE_SERVER: 'هل تريد حذف هذا الخادم من القائمة؟',
+  SUCCESS_SWITCH_SERVER: 'تم التبديل إلى',
+
+  // Diagnostics
+  TAG_DIAGNOSTICS: 'تشخيص الرقاقة',
+  READ_TAG: 'قراءة رقاقة',
+  INSTRUCTION_DIAGNOSTICS: 'ضع الرقاقة بالقرب من الجهاز لعرض كل ما يقرأه الجهاز منها',
+  DIAG_TECHNOLOGIES: 'التقنيات',
+  DIAG_UID: 'المعرف الفريد (UID)',
+  DIAG_NDEF_SIZE: 'مساحة NDEF المستخدمة',
+  DIAG_WRITABLE: 'قابلة للكتابة',
+  DIAG_RECORDS: 'سجلات NDEF',
+  DIAG_NO_RECORDS: 'لا توجد سجلات NDEF',
+  DIAG_CARD_ID: 'رقم الرقاقة عند المسح',
+  DIAG_SIGNATURE: 'التوقيع',
+  DIAG_PILGRIM_MATCH: 'الحاج المطابق',
+  DIAG_NO_MATCH: 'لا يوجد حاج مطابق في الخادم',
+  SIGNATURE_STATUS: {
+    valid: 'صالح',
+    invalid: 'غير صالح',
+    missing: 'غير موجود',
+    unchecked: 'لم يتم التحقق',
+  },
+  YES: 'نعم',
+  NO: 'لا',
+  BYTES: 'بايت',
+  UNKNOWN: 'غير معروف',
+
   // Search and Filter
   SEARCH_PLACEHOLDER: 'البحث بالاسم أو رقم جواز السفر',
   FILTER_ALL: 'الكل',
@@ -54,6 +234,45 @@ export const ARABIC_TEXTS = {
   SORT_BY_SEAT: 'ترتيب بالمقعد',
   SORT_BY_STATUS: 'ترتيب بالحالة',
   SORT_BY_UPDATED: 'ترتيب بالتحديث',
+  ALL_BUSES: 'كل الحافلات',
+
+  // Bulk actions
+  SELECT_MULTIPLE: 'تحديد متعدد',
+  CANCEL_SELECTION: 'إلغاء التحديد',
+  SELECT_ALL: 'تحديد الكل',
+  CLEAR_SELECTION: 'مسح التحديد',
+  SELECTED_COUNT: 'محدد',
+  BULK_SET_ONBOARD: 'تسجيل الصعود',
+  BULK_SET_OFFBOARD: 'تسجيل النزول',
+  CONFIRM_BULK_STATUS: 'تأكيد تحديث الحالة',
+  BULK_SUMMARY: 'عدد الحجاج الذين ستتغير حالتهم إلى',
+  BULK_SKIPPED: 'حجاج بهذه الحالة بالفعل ولن يتغيروا',
+  BULK_NOTHING_TO_CHANGE: 'جميع الحجاج المحددين بهذه الحالة بالفعل',
+  SUCCESS_BULK_STATUS: 'تم تحديث حالة جميع الحجاج المحددين',
+  BULK_PARTIAL_FAILURE: 'لم يتم تحديث بعض الحجاج',
+  BULK_UPDATED_COUNT: 'تم التحديث',
+  BULK_MORE_FAILURES: 'وآخرون',
+
+  // Pilgrim records
+  ADD_PILGRIM: 'إضافة حاج',
+  EDIT_PILGRIM: 'تعديل البيانات',
+  DELETE_PILGRIM: 'حذف الحاج',
+  NFC_CARD_ID: 'رقم الرقاقة',
+  STATUS: 'الحالة',
+  DATE_FORMAT_HINT: 'YYYY-MM-DD',
+  CARD_MANAGED_BY_ENROLL: 'يتم تغيير الرقاقة من شاشة تسجيل الرقاقة للحفاظ على سجل الرقاقات',
+  SUCCESS_CREATE_PILGRIM: 'تمت إضافة الحاج',
+  SUCCESS_DELETE_PILGRIM: 'تم حذف الحاج',
+  VALIDATION: {
+    NAME_TOO_SHORT: 'الاسم قصير جداً',
+    INVALID_PASSPORT: 'رقم الجواز من ٦ إلى ٩ أحرف لاتينية أو أرقام',
+    INVALID_PHONE: 'رقم الهاتف غير صالح - من ٧ إلى ١٥ رقماً مع رمز الدولة',
+    INVALID_DATE_OF_BIRTH: 'تاريخ الميلاد غير صالح - بالصيغة YYYY-MM-DD',
+    INVALID_SEAT: 'رقم المقعد يجب أن يكون عدداً صحيحاً موجباً',
+    SEAT_TAKEN: 'المقعد محجوز لحاج آخر',
+    CARD_TAKEN: 'الرقاقة مسجلة لحاج آخر أو سبق استخدامها',
+    INVALID_CARD_ID: 'رقم الرقاقة يكتب بالصيغة الست عشرية، مثل 04A1B2C3',
+  },
   
   // Actions
   REFRESH: 'تحديث',
@@ -72,14 +291,38 @@ export const ARABIC_TEXTS = {
   
   // Errors
   ERROR_NETWORK: 'خطأ في الاتصال بالشبكة',
+  ERROR_REQUEST_CANCELLED: 'تم إلغاء الطلب',
   ERROR_NFC_NOT_SUPPORTED: 'الجهاز لا يدعم NFC',
   ERROR_NFC_DISABLED: 'NFC غير مفعل',
   ERROR_NFC_NOT_AVAILABLE_IN_EXPO_GO: 'NFC غير متاح في Expo Go - يرجى استخدام التطبيق المطور',
   ERROR_SCAN_TIMEOUT: 'انتهت مهلة المسح',
+  ERROR_SCAN_CANCELLED: 'تم إلغاء المسح',
   ERROR_PILGRIM_NOT_FOUND: 'لم يتم العثور على الحاج',
   ERROR_ALREADY_ONBOARD: 'الحاج على متن الحافلة بالفعل',
   ERROR_ALREADY_OFFBOARD: 'الحاج خارج الحافلة بالفعل',
   ERROR_INVALID_CARD: 'رقاقة غير صالحة',
+  ERROR_CARD_READ_FAILED: 'تعذرت قراءة بيانات الرقاقة - أعد المحاولة',
+  ERROR_AMBIGUOUS_CARD: 'لا يمكن تحديد هوية الرقاقة - هذه الرقاقة غير صالحة للاستخدام ويجب استبدالها',
+  ERROR_CARD_WRITE_FAILED: 'فشل في الكتابة على الرقاقة',
+  ERROR_CARD_TOO_SMALL: 'سعة الرقاقة لا تكفي للبيانات - استخدم رقاقة أكبر أو ألغِ بيانات الطوارئ',
+  ERROR_NO_EMERGENCY_INFO: 'لا تحتوي الرقاقة على بيانات طوارئ',
+  ERROR_NO_ACTIVE_LEG: 'اختر مرحلة الرحلة قبل بدء المسح',
+  ERROR_NO_ACTIVE_BUS: 'اختر الحافلة قبل بدء المسح',
+  ERROR_WRONG_BUS: 'الحاج مسجل في حافلة أخرى - يجب توجيهه إلى',
+  ERROR_ASSIGNED_OTHER_BUS: 'الحاج مسجل في حافلة أخرى',
+  ERROR_CARD_ALREADY_ASSIGNED: 'الرقاقة مسجلة لحاج آخر',
+  ERROR_CARD_REVOKED: 'الرقاقة ملغاة - تم الإبلاغ عن فقدانها أو استبدالها',
+  ERROR_INVALID_CREDENTIALS: 'البريد الإلكتروني أو كلمة المرور غير صحيحة',
+  ERROR_PERMISSION_DENIED: 'لا تملك صلاحية تنفيذ هذه العملية',
+  ERROR_INVALID_SERVER_URL: 'عنوان الخادم غير صالح - يجب أن يبدأ بـ http:// أو https://',
+  ERROR_SERVER_UNREACHABLE: 'تعذر الاتصال بالخادم - لم يتم التبديل',
+  ERROR_SESSION_EXPIRED: 'انتهت الجلسة - يرجى تسجيل الدخول مرة أخرى',
+  ERROR_NOT_FOUND: 'السجل المطلوب غير موجود',
+  ERROR_VALIDATION: 'البيانات المدخلة غير صحيحة',
+  ERROR_STATUS_NOT_SAVED: 'لم يتم حفظ الحالة - أعيدت الحالة السابقة',
+  ERROR_FORGED_CARD: 'رقاقة مزورة أو منسوخة - لا يمكن التحقق من توقيعها',
+  FORGED_CARD_TITLE: 'تحذير أمني',
+  ERROR_SIGNING_KEY_MISSING: 'مفتاح توقيع الرقاقات غير مُعد - راجع مسؤول النظام',
   ERROR_SERVER: 'خطأ في الخادم',
   ERROR_UNKNOWN: 'خطأ غير معروف',
   
@@ -87,6 +330,8 @@ export const ARABIC_TEXTS = {
   SUCCESS_ONBOARD: 'تم صعود الحاج بنجاح',
   SUCCESS_OFFBOARD: 'تم نزول الحاج بنجاح',
   SUCCESS_UPDATE: 'تم التحديث بنجاح',
+  SUCCESS_ENROLL: 'تم تسجيل الرقاقة بنجاح',
+  SUCCESS_REVOKE: 'تم إلغاء الرقاقة',
   SUCCESS_SYNC: 'تم المزامنة بنجاح',
   
   // Confirmations
@@ -94,10 +339,13 @@ export const ARABIC_TEXTS = {
   CONFIRM_OFFBOARD: 'هل تريد تأكيد نزول الحاج؟',
   CONFIRM_DELETE: 'هل تريد حذف هذا الحاج؟',
   CONFIRM_RESET: 'هل تريد إعادة تعيين البيانات؟',
+  CONFIRM_REPLACE_CARD: 'هذا الحاج لديه رقاقة مسجلة بالفعل. هل تريد استبدالها برقاقة جديدة؟',
+  CONFIRM_REVOKE_CARD: 'سيتم إلغاء الرقاقة ولن يتم قبولها عند المسح. هل تريد المتابعة؟',
   
   // Instructions
   INSTRUCTION_ONBOARD: 'اضغط على زر "بدء الصعود" ثم امسح رقاقات الحجاج واحدة تلو الأخرى',
   INSTRUCTION_OFFBOARD: 'اضغط على زر "بدء النزول" ثم امسح رقاقات الحجاج واحدة تلو الأخرى',
+  INSTRUCTION_ENROLL: 'اختر الحاج ثم ضع رقاقة فارغة بالقرب من الجهاز لكتابة بياناته عليها',
   INSTRUCTION_NFC: 'تأكد من تفعيل NFC وضع الرقاقة بالقرب من الجهاز',
   
   // Time and Date
@@ -122,6 +370,40 @@ export const ARABIC_TEXTS = {
   } as const,
 } as const;
 
+// One message per AppError - the store, hooks and screens all read from here
+export const ERROR_MESSAGES: Record<AppError, string> = {
+  NETWORK_ERROR: ARABIC_TEXTS.ERROR_NETWORK,
+  REQUEST_CANCELLED: ARABIC_TEXTS.ERROR_REQUEST_CANCELLED,
+  NFC_NOT_SUPPORTED: ARABIC_TEXTS.ERROR_NFC_NOT_SUPPORTED,
+  NFC_DISABLED: ARABIC_TEXTS.ERROR_NFC_DISABLED,
+  NFC_NOT_AVAILABLE_IN_EXPO_GO: ARABIC_TEXTS.ERROR_NFC_NOT_AVAILABLE_IN_EXPO_GO,
+  SCAN_TIMEOUT: ARABIC_TEXTS.ERROR_SCAN_TIMEOUT,
+  SCAN_CANCELLED: ARABIC_TEXTS.ERROR_SCAN_CANCELLED,
+  PILGRIM_NOT_FOUND: ARABIC_TEXTS.ERROR_PILGRIM_NOT_FOUND,
+  ALREADY_ONBOARD: ARABIC_TEXTS.ERROR_ALREADY_ONBOARD,
+  WRONG_BUS: ARABIC_TEXTS.ERROR_ASSIGNED_OTHER_BUS,
+  ALREADY_OFFBOARD: ARABIC_TEXTS.ERROR_ALREADY_OFFBOARD,
+  INVALID_CARD: ARABIC_TEXTS.ERROR_INVALID_CARD,
+  CARD_READ_FAILED: ARABIC_TEXTS.ERROR_CARD_READ_FAILED,
+  AMBIGUOUS_CARD: ARABIC_TEXTS.ERROR_AMBIGUOUS_CARD,
+  FORGED_CARD: ARABIC_TEXTS.ERROR_FORGED_CARD,
+  SIGNING_KEY_MISSING: ARABIC_TEXTS.ERROR_SIGNING_KEY_MISSING,
+  CARD_WRITE_FAILED: ARABIC_TEXTS.ERROR_CARD_WRITE_FAILED,
+  CARD_TOO_SMALL: ARABIC_TEXTS.ERROR_CARD_TOO_SMALL,
+  NO_EMERGENCY_INFO: ARABIC_TEXTS.ERROR_NO_EMERGENCY_INFO,
+  CARD_ALREADY_ASSIGNED: ARABIC_TEXTS.ERROR_CARD_ALREADY_ASSIGNED,
+  CARD_REVOKED: ARABIC_TEXTS.ERROR_CARD_REVOKED,
+  INVALID_CREDENTIALS: ARABIC_TEXTS.ERROR_INVALID_CREDENTIALS,
+  PERMISSION_DENIED: ARABIC_TEXTS.ERROR_PERMISSION_DENIED,
+  INVALID_SERVER_URL: ARABIC_TEXTS.ERROR_INVALID_SERVER_URL,
+  SERVER_UNREACHABLE: ARABIC_TEXTS.ERROR_SERVER_UNREACHABLE,
+  SESSION_EXPIRED: ARABIC_TEXTS.ERROR_SESSION_EXPIRED,
+  NOT_FOUND: ARABIC_TEXTS.ERROR_NOT_FOUND,
+  VALIDATION_ERROR: ARABIC_TEXTS.ERROR_VALIDATION,
+  SERVER_ERROR: ARABIC_TEXTS.ERROR_SERVER,
+  UNKNOWN_ERROR: ARABIC_TEXTS.ERROR_UNKNOWN,
+};
+
 // Helper function to convert English numbers to Arabic-Indic numbers
 export const toArabicNumbers = (text: string): string => {
   return text.replace(/[0-9]/g, (digit) => {
@@ -130,6 +412,12 @@ export const toArabicNumbers = (text: string): string => {
   });
 };
 
+// Helper function to convert Arabic-Indic digits typed on an Arabic keyboard
+// back to English digits
+export const toLatinNumbers = (text: string): string => {
+  return text.replace(/[٠-٩]/g, (digit) => (digit.charCodeAt(0) - 0x0660).toString());
+};
+
 // Helper function to format Arabic text with proper spacing
 export const formatArabicText = (text: string): string => {
   return text.trim().replace(/\s+/g, ' ');
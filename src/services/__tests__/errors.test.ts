@@ -0,0 +1,34 @@
+import { toServiceError } from '../errors';
+
+// The fields of the SDK's ClientResponseError that classification reads
+const responseError = (fields: { status?: number; isAbort?: boolean }) => ({
+  url: 'http://127.0.0.1:8090/api/collections/pilgrims/records',
+  status: 0,
+  response: {},
+  isAbort: false,
+  ...fields,
+});
+
+describe('toServiceError', () => {
+  it('treats an unreachable server as a retryable network error', () => {
+    const error = toServiceError(responseError({ status: 0 }));
+
+    expect(error.type).toBe('NETWORK_ERROR');
+    expect(error.retryable).toBe(true);
+    expect(error.silent).toBe(false);
+  });
+
+  it('keeps cancelled requests out of retries and away from the operator', () => {
+    const error = toServiceError(responseError({ isAbort: true }));
+
+    expect(error.status).toBe(0);
+    expect(error.type).toBe('REQUEST_CANCELLED');
+    expect(error.retryable).toBe(false);
+    expect(error.silent).toBe(true);
+  });
+
+  it('sorts server answers by their status', () => {
+    expect(toServiceError(responseError({ status: 403 })).type).toBe('PERMISSION_DENIED');
+    expect(toServiceError(responseError({ status: 404 }), 'PILGRIM_NOT_FOUND').type).toBe('PILGRIM_NOT_FOUND');
+  });
+});
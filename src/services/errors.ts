@@ -0,0 +1,103 @@
+import { ERROR_MESSAGES } from '@/src/localization';
+import { AppError, ErrorState } from '@/src/types';
+
+// Failures that may clear up on their own - everything else gives the same
+// answer however often it is asked
+const RETRYABLE_ERRORS: readonly AppError[] = [
+  'NETWORK_ERROR',
+  'SERVER_ERROR',
+  'SERVER_UNREACHABLE',
+  'SCAN_TIMEOUT',
+];
+
+// Requests dropped on purpose - by the SDK's auto-cancellation when a newer
+// one of the same kind went out, or by an abort. Nothing for the operator to
+// act on, so they are not shown.
+const SILENT_ERRORS: readonly AppError[] = ['REQUEST_CANCELLED'];
+
+/**
+ * A failure classified into an AppError. The message stays the code so scan
+ * events and existing checks keep working - screens show localizedMessage.
+ */
+export class ServiceError extends Error {
+  readonly type: AppError;
+  readonly status: number; // HTTP status, 0 when the server was never reached
+  readonly retryable: boolean;
+  readonly silent: boolean;
+  readonly timestamp: number;
+  readonly data?: Record<string, any>; // Field errors PocketBase returned with a 400
+
+  constructor(type: AppError, options: { status?: number; data?: Record<string, any> } = {}) {
+    super(type);
+    this.name = 'ServiceError';
+    this.type = type;
+    this.status = options.status ?? 0;
+    this.retryable = RETRYABLE_ERRORS.includes(type);
+    this.silent = SILENT_ERRORS.includes(type);
+    this.timestamp = Date.now();
+    this.data = options.data;
+  }
+
+  get localizedMessage(): string {
+    return ERROR_MESSAGES[this.type];
+  }
+
+  toErrorState(): ErrorState {
+    return {
+      type: this.type,
+      message: this.localizedMessage,
+      timestamp: this.timestamp,
+      retryable: this.retryable,
+    };
+  }
+}
+
+const isAppError = (value: unknown): value is AppError =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_MESSAGES, value);
+
+const classifyStatus = (status: number, notFound: AppError): AppError => {
+  if (status === 0) return 'NETWORK_ERROR';
+  if (status === 400) return 'VALIDATION_ERROR';
+  if (status === 401) return 'SESSION_EXPIRED';
+  if (status === 403) return 'PERMISSION_DENIED';
+  if (status === 404) return notFound;
+  if (status === 408 || status === 429 || status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN_ERROR';
+};
+
+/**
+ * Classify anything that was thrown, or an error code from a scan result.
+ * PocketBase responses are sorted by their status, errors thrown as
+ * `new Error('CODE')` keep their code. notFound says what a 404 means for
+ * the call that failed.
+ */
+export const toServiceError = (error: unknown, notFound: AppError = 'NOT_FOUND'): ServiceError => {
+  if (error instanceof ServiceError) {
+    return error;
+  }
+
+  if (typeof error === 'string') {
+    return new ServiceError(isAppError(error) ? error : 'UNKNOWN_ERROR');
+  }
+
+  const { status, message, response, isAbort } = (error ?? {}) as {
+    status?: unknown;
+    message?: unknown;
+    response?: { data?: Record<string, any> };
+    isAbort?: unknown;
+  };
+
+  // Aborted requests carry status 0 too, but the server was never the problem
+  if (isAbort === true) {
+    return new ServiceError('REQUEST_CANCELLED');
+  }
+
+  if (typeof status === 'number') {
+    return new ServiceError(classifyStatus(status, notFound), { status, data: response?.data });
+  }
+
+  return new ServiceError(isAppError(message) ? message : 'UNKNOWN_ERROR');
+};
+
+// Arabic text for anything that was thrown or an error code, for screens and alerts
+export const getErrorMessage = (error: unknown): string => toServiceError(error).localizedMessage;
@@ -0,0 +1,18 @@
+import { normalizeCardId, resolveCardIdentity } from '../cardIdentity';
+
+describe('normalizeCardId', () => {
+  it.each([
+    ['04:a1:b2:c3:d4:e5:f6', '04A1B2C3D4E5F6'],
+    ['04-A1-B2-C3', '04A1B2C3'],
+    [' 04 a1 b2 c3 ', '04A1B2C3'],
+    ['04A1B2C3', '04A1B2C3'],
+  ])('writes %j as %j', (cardId, normalized) => {
+    expect(normalizeCardId(cardId)).toBe(normalized);
+  });
+
+  it('matches the ID a scan of the same tag resolves to', () => {
+    const tag = { id: '04:a1:b2:c3:d4:e5:f6', techTypes: ['android.nfc.tech.NfcA'] };
+
+    expect(resolveCardIdentity(tag).cardId).toBe(normalizeCardId('04 a1 b2 c3 d4 e5 f6'));
+  });
+});
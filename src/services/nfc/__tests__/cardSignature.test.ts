@@ -0,0 +1,105 @@
+import {
+  decodeCardRecord,
+  encodeCardRecord,
+  hmacSha256,
+  sha256,
+  signCardPayload,
+  verifyCardPayload,
+} from '../cardSignature';
+import { bytesToHex, utf8Encode } from '../encoding';
+
+const repeat = (byte: number, length: number): number[] => new Array(length).fill(byte);
+const hex = (bytes: number[]): string => bytesToHex(bytes).toLowerCase();
+
+describe('sha256', () => {
+  // FIPS 180-2 example messages
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+  ])('hashes %j', (message, digest) => {
+    expect(hex(sha256(utf8Encode(message)))).toBe(digest);
+  });
+
+  it('hashes a message spanning several blocks', () => {
+    expect(hex(sha256(repeat(0x61, 1000)))).toBe(
+      '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+    );
+  });
+});
+
+describe('hmacSha256', () => {
+  // RFC 4231 test cases - case 5 truncates the output and is left out
+  it.each([
+    [
+      'case 1',
+      repeat(0x0b, 20),
+      utf8Encode('Hi There'),
+      'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7',
+    ],
+    [
+      'case 2',
+      utf8Encode('Jefe'),
+      utf8Encode('what do ya want for nothing?'),
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    ],
+    [
+      'case 3',
+      repeat(0xaa, 20),
+      repeat(0xdd, 50),
+      '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe',
+    ],
+    [
+      'case 4',
+      Array.from({ length: 25 }, (_, i) => i + 1),
+      repeat(0xcd, 50),
+      '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b',
+    ],
+    [
+      'case 6',
+      repeat(0xaa, 131),
+      utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First'),
+      '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+    ],
+    [
+      'case 7',
+      repeat(0xaa, 131),
+      utf8Encode(
+        'This is a test using a larger than block-size key and a larger than block-size data. ' +
+          'The key needs to be hashed before being used by the HMAC algorithm.'
+      ),
+      '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2',
+    ],
+  ])('matches RFC 4231 %s', (_name, key, message, mac) => {
+    expect(hex(hmacSha256(key, message))).toBe(mac);
+  });
+});
+
+describe('card payloads', () => {
+  const key = 'agency-key';
+  const uid = '04A1B2C3D4E5F6';
+
+  it('verifies a payload on the tag it was signed for', () => {
+    const payload = signCardPayload(key, 'pilgrim123', 'SERIAL1', uid);
+
+    expect(verifyCardPayload(key, payload, uid)).toBe(true);
+    expect(verifyCardPayload(key, payload, uid.toLowerCase())).toBe(true);
+  });
+
+  it('rejects a payload copied to another tag or signed with another key', () => {
+    const payload = signCardPayload(key, 'pilgrim123', 'SERIAL1', uid);
+
+    expect(verifyCardPayload(key, payload, '04A1B2C3D4E5F7')).toBe(false);
+    expect(verifyCardPayload('other-key', payload, uid)).toBe(false);
+    expect(verifyCardPayload(key, { ...payload, pilgrimId: 'pilgrim456' }, uid)).toBe(false);
+  });
+
+  it('round-trips through the NDEF record', () => {
+    const payload = signCardPayload(key, 'pilgrim123', 'SERIAL1', uid);
+
+    expect(decodeCardRecord([encodeCardRecord(payload)])).toEqual(payload);
+  });
+});
@@ -0,0 +1,43 @@
+import { bytesToHex, utf8Decode, utf8Encode } from '../encoding';
+
+const REPLACEMENT = '�';
+
+describe('utf8Decode', () => {
+  it.each(['pilgrim', 'حاج', 'ü€', '🕋 🚌'])('round-trips %j', (text) => {
+    expect(utf8Decode(utf8Encode(text))).toBe(text);
+  });
+
+  it.each([
+    ['above U+10FFFF', [0xf4, 0x90, 0x80, 0x80]],
+    ['above U+10FFFF with the largest 4-byte lead', [0xf7, 0xbf, 0xbf, 0xbf]],
+    ['an overlong 2-byte slash', [0xc0, 0xaf]],
+    ['an overlong 3-byte slash', [0xe0, 0x80, 0xaf]],
+    ['an overlong 4-byte euro sign', [0xf0, 0x82, 0x82, 0xac]],
+    ['a high surrogate', [0xed, 0xa0, 0x80]],
+    ['a low surrogate', [0xed, 0xbf, 0xbf]],
+  ])('replaces %s byte by byte', (_name, bytes) => {
+    expect(utf8Decode(bytes)).toBe(REPLACEMENT.repeat(bytes.length));
+  });
+
+  it('keeps the text around an invalid sequence', () => {
+    expect(utf8Decode([0x41, 0xf4, 0x90, 0x80, 0x80, 0x42])).toBe(`A${REPLACEMENT.repeat(4)}B`);
+  });
+
+  it('decodes the boundaries of the valid range', () => {
+    expect(utf8Decode([0xc2, 0x80])).toBe('\u0080');
+    expect(utf8Decode([0xe0, 0xa0, 0x80])).toBe('ࠀ');
+    expect(utf8Decode([0xee, 0x80, 0x80])).toBe('');
+    expect(utf8Decode([0xf4, 0x8f, 0xbf, 0xbf])).toBe(String.fromCodePoint(0x10ffff));
+  });
+
+  it('replaces truncated sequences and stray continuation bytes', () => {
+    expect(utf8Decode([0x41, 0xe2, 0x82])).toBe(`A${REPLACEMENT.repeat(2)}`);
+    expect(utf8Decode([0x80, 0x41])).toBe(`${REPLACEMENT}A`);
+  });
+});
+
+describe('bytesToHex', () => {
+  it('formats bytes as upper-case hex pairs', () => {
+    expect(bytesToHex([0x04, 0xa1, 0xff])).toBe('04A1FF');
+  });
+});
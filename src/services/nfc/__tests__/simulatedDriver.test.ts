@@ -0,0 +1,56 @@
+import { NFCTag } from '@/src/types';
+import { resolveCardIdentity } from '../cardIdentity';
+import { SimulatedNFCDriver, toSimulatedUid } from '../simulatedDriver';
+
+const tapAndCapture = async (cardId: string): Promise<NFCTag> => {
+  const driver = new SimulatedNFCDriver();
+  let tapped: NFCTag | null = null;
+
+  await driver.registerTagListener((tag) => {
+    tapped = tag;
+  });
+  driver.tap(cardId);
+
+  return tapped!;
+};
+
+describe('toSimulatedUid', () => {
+  it('keeps hex UIDs, normalised like a real reader', () => {
+    expect(toSimulatedUid('04:a1:b2:c3:d4:e5:f6')).toBe('04A1B2C3D4E5F6');
+    expect(toSimulatedUid('DEADBEEF')).toBe('DEADBEEF');
+  });
+
+  it('maps other labels to a stable 7-byte NXP UID', () => {
+    const uid = toSimulatedUid('PILGRIM-001');
+
+    expect(uid).toMatch(/^04[0-9A-F]{12}$/);
+    expect(toSimulatedUid('PILGRIM-001')).toBe(uid);
+    expect(toSimulatedUid('PILGRIM-002')).not.toBe(uid);
+  });
+});
+
+describe('SimulatedNFCDriver', () => {
+  it.each(['PILGRIM-001', 'test card', '04A1B2C3D4E5F6'])(
+    'taps %j as a tag the identity resolver accepts',
+    async (cardId) => {
+      const tag = await tapAndCapture(cardId);
+
+      expect(resolveCardIdentity(tag)).toEqual({
+        cardId: toSimulatedUid(cardId),
+        technology: 'NfcA',
+      });
+    }
+  );
+
+  it('taps an invalid tag as ambiguous', async () => {
+    const driver = new SimulatedNFCDriver();
+    let tapped: NFCTag | null = null;
+
+    await driver.registerTagListener((tag) => {
+      tapped = tag;
+    });
+    driver.emit({ type: 'invalid' });
+
+    expect(() => resolveCardIdentity(tapped)).toThrow('AMBIGUOUS_CARD');
+  });
+});
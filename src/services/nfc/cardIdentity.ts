@@ -0,0 +1,119 @@
+import { CardIdentity, CardTechnology, NFCTag } from '@/src/types';
+import { bytesToHex } from './encoding';
+
+/*
+ * Card identity strategy
+ *
+ * A card is identified by its UID only, normalised per technology:
+ *   - NfcA (ISO 14443-3A): 4, 7 or 10 byte UID. 4-byte UIDs starting with
+ *     0x08 are random per tap and can never identify a card.
+ *   - NfcB (ISO 14443-3B): 4 byte PUPI.
+ *   - NfcF (FeliCa): 8 byte IDm.
+ *   - NfcV (ISO 15693): 8 byte UID, always MSB first (starting with 0xE0).
+ *     Android reports it LSB first, so it is reversed.
+ *
+ * There is no fallback to NDEF text or tag properties: a tag without a
+ * usable UID is rejected as AMBIGUOUS_CARD so operators replace it.
+ */
+
+const TECHNOLOGY_UID_LENGTHS: Record<CardTechnology, number[]> = {
+  NfcA: [4, 7, 10],
+  NfcB: [4],
+  NfcF: [8],
+  NfcV: [8],
+  unknown: [4, 7, 8, 10],
+};
+
+const NFCA_RANDOM_UID_PREFIX = 0x08;
+const NFCV_UID_PREFIX = 0xe0;
+
+// iOS reports the tag family instead of Android tech classes
+const IOS_TAG_TYPES: Record<string, CardTechnology> = {
+  mifare: 'NfcA',
+  iso15693: 'NfcV',
+  felica: 'NfcF',
+};
+
+/**
+ * Detect the RF technology of a tag
+ */
+export const detectCardTechnology = (tag: NFCTag): CardTechnology => {
+  const techTypes = tag.techTypes || [];
+  const technologies: CardTechnology[] = ['NfcA', 'NfcB', 'NfcF', 'NfcV'];
+
+  const androidTechnology = technologies.find((technology) =>
+    techTypes.some((techType) => techType.endsWith(`.${technology}`) || techType === technology)
+  );
+  if (androidTechnology) {
+    return androidTechnology;
+  }
+
+  return IOS_TAG_TYPES[(tag.type || '').toLowerCase()] || 'unknown';
+};
+
+/**
+ * Write a card ID the way card identities are stored - upper-case hex with
+ * the separators readers and people put between bytes removed
+ */
+export const normalizeCardId = (cardId: string): string =>
+  cardId.replace(/[\s:-]/g, '').toUpperCase();
+
+/**
+ * Read the raw UID bytes from a tag, or null when it has none
+ */
+export const readUidBytes = (tag: NFCTag): number[] | null => {
+  const rawId = tag.id ?? tag.uid;
+  if (!rawId) {
+    return null;
+  }
+
+  if (Array.isArray(rawId)) {
+    return rawId.map((byte) => byte & 0xff);
+  }
+
+  const hex = normalizeCardId(String(rawId));
+  if (!/^([0-9A-F]{2})+$/.test(hex)) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+};
+
+/**
+ * Resolve the identity of a tag - throws INVALID_CARD when there is no tag
+ * and AMBIGUOUS_CARD when the tag cannot be identified reliably
+ */
+export const resolveCardIdentity = (tag: NFCTag | null): CardIdentity => {
+  if (!tag) {
+    throw new Error('INVALID_CARD');
+  }
+
+  const technology = detectCardTechnology(tag);
+  let uid = readUidBytes(tag);
+
+  if (!uid || !TECHNOLOGY_UID_LENGTHS[technology].includes(uid.length)) {
+    throw new Error('AMBIGUOUS_CARD');
+  }
+
+  // Blank or placeholder UIDs are shared by many tags
+  if (uid.every((byte) => byte === 0x00) || uid.every((byte) => byte === 0xff)) {
+    throw new Error('AMBIGUOUS_CARD');
+  }
+
+  if (technology === 'NfcA' && uid.length === 4 && uid[0] === NFCA_RANDOM_UID_PREFIX) {
+    throw new Error('AMBIGUOUS_CARD');
+  }
+
+  if (technology === 'NfcV' && uid[0] !== NFCV_UID_PREFIX && uid[uid.length - 1] === NFCV_UID_PREFIX) {
+    uid = [...uid].reverse();
+  }
+
+  return {
+    cardId: bytesToHex(uid),
+    technology,
+  };
+};
@@ -0,0 +1,202 @@
+import { NFCTagRecord, SignedCardPayload } from '@/src/types';
+import { bytesToHex, utf8Decode, utf8Encode } from './encoding';
+import { parseNdefMessage, TNF_EXTERNAL_TYPE } from './ndef';
+
+// NDEF external type carrying the signed card payload
+export const CARD_RECORD_TYPE = 'pilgrim-app:card';
+const PAYLOAD_VERSION = 1;
+
+// SHA-256 round constants
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+/**
+ * SHA-256 digest of a byte array
+ */
+export const sha256 = (message: number[]): number[] => {
+  const bytes = [...message, 0x80];
+  while (bytes.length % 64 !== 56) {
+    bytes.push(0);
+  }
+
+  // Message length in bits as a 64-bit big-endian integer
+  const bitLength = message.length * 8;
+  const high = Math.floor(bitLength / 0x100000000);
+  const low = bitLength >>> 0;
+  bytes.push(
+    (high >>> 24) & 0xff, (high >>> 16) & 0xff, (high >>> 8) & 0xff, high & 0xff,
+    (low >>> 24) & 0xff, (low >>> 16) & 0xff, (low >>> 8) & 0xff, low & 0xff
+  );
+
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  const words = new Array<number>(64);
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const index = offset + i * 4;
+      words[i] = (bytes[index] << 24) | (bytes[index + 1] << 16) | (bytes[index + 2] << 8) | bytes[index + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(words[i - 15], 7) ^ rotr(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotr(words[i - 2], 17) ^ rotr(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + K[i] + words[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    hash[0] = (hash[0] + a) | 0;
+    hash[1] = (hash[1] + b) | 0;
+    hash[2] = (hash[2] + c) | 0;
+    hash[3] = (hash[3] + d) | 0;
+    hash[4] = (hash[4] + e) | 0;
+    hash[5] = (hash[5] + f) | 0;
+    hash[6] = (hash[6] + g) | 0;
+    hash[7] = (hash[7] + h) | 0;
+  }
+
+  return hash.flatMap((word) => [
+    (word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff,
+  ]);
+};
+
+/**
+ * HMAC-SHA256 of a message under a key
+ */
+export const hmacSha256 = (key: number[], message: number[]): number[] => {
+  const blockKey = key.length > 64 ? sha256(key) : [...key];
+  while (blockKey.length < 64) {
+    blockKey.push(0);
+  }
+
+  const innerKey = blockKey.map((byte) => byte ^ 0x36);
+  const outerKey = blockKey.map((byte) => byte ^ 0x5c);
+
+  return sha256([...outerKey, ...sha256([...innerKey, ...message])]);
+};
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+const constantTimeEquals = (left: string, right: string): boolean => {
+  if (left.length !== right.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left.charCodeAt(i) ^ right.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+/**
+ * Compute the signature binding a pilgrim and card serial to the tag UID.
+ * Including the UID means copying the record onto another tag fails the check.
+ */
+export const computeCardSignature = (
+  key: string,
+  pilgrimId: string,
+  serial: string,
+  uid: string
+): string => {
+  const message = `v${PAYLOAD_VERSION}|${pilgrimId}|${serial}|${uid.toUpperCase()}`;
+  return bytesToHex(hmacSha256(utf8Encode(key), utf8Encode(message)));
+};
+
+/**
+ * Create a signed payload for a pilgrim's card
+ */
+export const signCardPayload = (
+  key: string,
+  pilgrimId: string,
+  serial: string,
+  uid: string
+): SignedCardPayload => ({
+  pilgrimId,
+  serial,
+  signature: computeCardSignature(key, pilgrimId, serial, uid),
+});
+
+/**
+ * Verify a signed payload against the UID of the tag it was read from
+ */
+export const verifyCardPayload = (
+  key: string,
+  payload: SignedCardPayload,
+  uid: string
+): boolean => {
+  const expected = computeCardSignature(key, payload.pilgrimId, payload.serial, uid);
+  return constantTimeEquals(expected, payload.signature.toUpperCase());
+};
+
+/**
+ * Encode a signed payload as an NDEF external record
+ */
+export const encodeCardRecord = (payload: SignedCardPayload): NFCTagRecord => ({
+  tnf: TNF_EXTERNAL_TYPE,
+  type: utf8Encode(CARD_RECORD_TYPE),
+  payload: utf8Encode(JSON.stringify({
+    v: PAYLOAD_VERSION,
+    p: payload.pilgrimId,
+    s: payload.serial,
+    h: payload.signature,
+  })),
+});
+
+/**
+ * Find and decode the signed payload among a tag's NDEF records
+ */
+export const decodeCardRecord = (records: NFCTagRecord[] = []): SignedCardPayload | null => {
+  const record = parseNdefMessage(records).find(
+    (candidate) => candidate.kind === 'external' && candidate.type === CARD_RECORD_TYPE
+  );
+
+  if (!record) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(utf8Decode(record.raw.payload));
+    if (data?.v !== PAYLOAD_VERSION || !data.p || !data.s || !data.h) {
+      return null;
+    }
+
+    return {
+      pilgrimId: String(data.p),
+      serial: String(data.s),
+      signature: String(data.h),
+    };
+  } catch (error) {
+    console.error('Error decoding card record:', error);
+    return null;
+  }
+};
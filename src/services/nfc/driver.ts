@@ -0,0 +1,81 @@
+import { NFCTag, NFCTagRecord } from '@/src/types';
+
+/**
+ * Low-level NFC reader used by NFCService.
+ *
+ * The native driver talks to react-native-nfc-manager, the simulated driver
+ * emits scripted or manually picked tags on machines without NFC hardware.
+ */
+export interface NFCDriver {
+  readonly name: 'native' | 'simulated';
+
+  /**
+   * Whether the underlying reader can be used at all in this environment
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Whether the device has NFC hardware
+   */
+  isSupported(): Promise<boolean>;
+
+  /**
+   * Whether NFC is turned on in the device settings
+   */
+  isEnabled(): Promise<boolean>;
+
+  /**
+   * Start the reader
+   */
+  start(): Promise<void>;
+
+  /**
+   * Wait for a single tag and return it
+   */
+  requestTag(): Promise<NFCTag | null>;
+
+  /**
+   * Cancel a pending tag request
+   */
+  cancelRequest(): Promise<void>;
+
+  /**
+   * Get the tag of the current request
+   */
+  getTag(): Promise<NFCTag | null>;
+
+  /**
+   * Whether the reader can stay armed between tags
+   */
+  supportsReaderMode(): boolean;
+
+  /**
+   * Keep the reader armed and report every discovered tag
+   */
+  registerTagListener(listener: (tag: NFCTag) => void): Promise<boolean>;
+
+  /**
+   * Disarm the reader and drop the tag listener
+   */
+  unregisterTagListener(): Promise<void>;
+
+  /**
+   * Write an NDEF message to the tag of the current request
+   */
+  writeNdefRecords(records: NFCTagRecord[]): Promise<void>;
+
+  /**
+   * Make the tag of the current request permanently read-only
+   */
+  makeReadOnly(): Promise<void>;
+
+  /**
+   * Open the system NFC settings
+   */
+  openSettings(): Promise<void>;
+
+  /**
+   * Listen for NFC being turned on or off - returns the unsubscribe function
+   */
+  onStateChange(listener: (enabled: boolean) => void): () => void;
+}
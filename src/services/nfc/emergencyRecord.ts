@@ -0,0 +1,56 @@
+import { EmergencyInfo, NFCTagRecord } from '@/src/types';
+import { utf8Decode, utf8Encode } from './encoding';
+import { parseNdefMessage, TNF_EXTERNAL_TYPE } from './ndef';
+
+// NDEF external type carrying the offline emergency information
+export const EMERGENCY_RECORD_TYPE = 'pilgrim-app:sos';
+const PAYLOAD_VERSION = 1;
+
+/**
+ * Encode emergency information as a compact NDEF external record - empty
+ * fields are left out to save space on small tags
+ */
+export const encodeEmergencyRecord = (info: EmergencyInfo): NFCTagRecord => {
+  const data: Record<string, string | number> = { v: PAYLOAD_VERSION, n: info.name };
+  if (info.groupLeaderPhone) data.l = info.groupLeaderPhone;
+  if (info.bus) data.b = info.bus;
+  if (info.hotel) data.h = info.hotel;
+  if (info.medicalNotes) data.m = info.medicalNotes;
+
+  return {
+    tnf: TNF_EXTERNAL_TYPE,
+    type: utf8Encode(EMERGENCY_RECORD_TYPE),
+    payload: utf8Encode(JSON.stringify(data)),
+  };
+};
+
+/**
+ * Find and decode the emergency information among a tag's NDEF records
+ */
+export const decodeEmergencyRecord = (records: NFCTagRecord[] = []): EmergencyInfo | null => {
+  const record = parseNdefMessage(records).find(
+    (candidate) => candidate.kind === 'external' && candidate.type === EMERGENCY_RECORD_TYPE
+  );
+
+  if (!record) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(utf8Decode(record.raw.payload));
+    if (data?.v !== PAYLOAD_VERSION || !data.n) {
+      return null;
+    }
+
+    return {
+      name: String(data.n),
+      groupLeaderPhone: data.l ? String(data.l) : undefined,
+      bus: data.b ? String(data.b) : undefined,
+      hotel: data.h ? String(data.h) : undefined,
+      medicalNotes: data.m ? String(data.m) : undefined,
+    };
+  } catch (error) {
+    console.error('Error decoding emergency record:', error);
+    return null;
+  }
+};
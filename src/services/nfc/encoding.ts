@@ -0,0 +1,96 @@
+// Byte helpers shared by the NFC service modules
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export const utf8Encode = (text: string): number[] => {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+
+  return bytes;
+};
+
+// Smallest code point each sequence length may encode - anything below is overlong
+const MIN_CODE_POINT: Record<number, number> = { 2: 0x80, 3: 0x800, 4: 0x10000 };
+
+const isScalarValue = (codePoint: number, length: number): boolean =>
+  codePoint >= MIN_CODE_POINT[length]
+  && codePoint <= 0x10ffff
+  && (codePoint < 0xd800 || codePoint > 0xdfff);
+
+/**
+ * Decode UTF-8 bytes into a string. Malformed, overlong, surrogate and
+ * out-of-range sequences become U+FFFD - card data never makes it throw.
+ */
+export const utf8Decode = (bytes: number[]): string => {
+  let text = '';
+  let index = 0;
+
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    let codePoint = 0xfffd;
+    let length = 1;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xc0 && byte < 0xe0) {
+      length = 2;
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      length = 3;
+    } else if (byte >= 0xf0 && byte < 0xf8) {
+      length = 4;
+    }
+
+    if (length > 1) {
+      const continuation = bytes.slice(index + 1, index + length);
+      const isValid = continuation.length === length - 1
+        && continuation.every((next) => (next & 0xc0) === 0x80);
+
+      if (isValid) {
+        codePoint = byte & (0xff >> (length + 1));
+        continuation.forEach((next) => {
+          codePoint = (codePoint << 6) | (next & 0x3f);
+        });
+      }
+
+      if (!isValid || !isScalarValue(codePoint, length)) {
+        codePoint = 0xfffd;
+        length = 1;
+      }
+    }
+
+    text += String.fromCodePoint(codePoint);
+    index += length;
+  }
+
+  return text;
+};
+
+/**
+ * Convert byte array to hex string
+ */
+export const bytesToHex = (bytes: number[]): string => {
+  return bytes.map(byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
@@ -1,43 +1,146 @@
-import { AppError, NFCScanResult } from '@/src/types';
-import { Platform } from 'react-native';
-
-// Conditional import for NFC Manager - handles Expo Go environment
-let NfcManager: any = null;
-let NfcTech: any = null;
-let Ndef: any = null;
-
-try {
-  const nfcModule = require('react-native-nfc-manager');
-  NfcManager = nfcModule.default;
-  NfcTech = nfcModule.NfcTech;
-  Ndef = nfcModule.Ndef;
-} catch (error) {
-  console.warn('NFC Manager not available - likely running in Expo Go. NFC features will be disabled.');
-}
+import { AppState } from 'react-native';
+import {
+  AppError,
+  CardEnrollmentResult,
+  CardSignatureStatus,
+  EmergencyInfo,
+  EmergencyReadResult,
+  NdefRecord,
+  NFCAdapterState,
+  NFCScanResult,
+  NFCServiceEvent,
+  NFCTag,
+  TagDiagnostics,
+} from '@/src/types';
+import { ServiceError } from '../errors';
+import { decodeCardRecord, encodeCardRecord, signCardPayload, verifyCardPayload } from './cardSignature';
+import { NFCDriver } from './driver';
+import { detectCardTechnology, readUidBytes, resolveCardIdentity } from './cardIdentity';
+import { decodeEmergencyRecord, encodeEmergencyRecord } from './emergencyRecord';
+import { bytesToHex } from './encoding';
+import { ndefMessageSize, parseNdefMessage, textRecord } from './ndef';
+import { nativeNFCDriver } from './nativeDriver';
+import { simulatedNFCDriver } from './simulatedDriver';
+
+/**
+ * Pick the driver for this environment - the real reader when the native
+ * module is present, the simulated reader in development builds without it
+ */
+const createDefaultDriver = (): NFCDriver => {
+  if (nativeNFCDriver.isAvailable() || !__DEV__) {
+    return nativeNFCDriver;
+  }
+
+  console.warn('Using simulated NFC reader - no native NFC module available.');
+  return simulatedNFCDriver;
+};
 
 class NFCService {
+  private driver: NFCDriver;
   private isInitialized = false;
   private scanTimeout = 5000; // 5 seconds timeout
+  private isContinuous = false;
+  private isScanning = false;
+  private adapterState: NFCAdapterState = 'unknown';
+  private listeners = new Set<(event: NFCServiceEvent) => void>();
+  private stopWatchingAdapter: (() => void) | null = null;
+  // The key ships inside the app bundle, so anyone with the APK can pull it
+  // out. Signatures catch records copied onto another tag and cards written
+  // by other apps - the server's card history is what binds a tag to a pilgrim.
+  private signingKey: string | null = process.env.EXPO_PUBLIC_CARD_SIGNING_KEY || null;
+
+  constructor(driver: NFCDriver = createDefaultDriver()) {
+    this.driver = driver;
+
+    if (!this.signingKey) {
+      if (__DEV__) {
+        console.warn('No card signing key configured - accepting unsigned cards in development.');
+      } else {
+        console.error('No card signing key configured - scans and enrollment are refused.');
+      }
+    }
+  }
+
+  /**
+   * Swap the reader driver (e.g. switch to the simulated reader)
+   */
+  async setDriver(driver: NFCDriver): Promise<void> {
+    await this.cleanup();
+    this.stopWatchingAdapter?.();
+    this.stopWatchingAdapter = null;
+    this.driver = driver;
+    this.setAdapterState('unknown');
+  }
+
+  /**
+   * Get the active reader driver
+   */
+  getDriver(): NFCDriver {
+    return this.driver;
+  }
+
+  /**
+   * Whether tags come from the simulated reader
+   */
+  isSimulated(): boolean {
+    return this.driver.name === 'simulated';
+  }
+
+  /**
+   * Subscribe to adapter state, scan lifecycle and error events - returns
+   * the unsubscribe function
+   */
+  addListener(listener: (event: NFCServiceEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Last known adapter state
+   */
+  getAdapterState(): NFCAdapterState {
+    return this.adapterState;
+  }
+
+  /**
+   * Ask the reader whether NFC is on and publish any change
+   */
+  async refreshAdapterState(): Promise<NFCAdapterState> {
+    try {
+      if (!this.driver.isAvailable() || !(await this.driver.isSupported())) {
+        this.setAdapterState('unsupported');
+      } else {
+        this.setAdapterState(await this.driver.isEnabled() ? 'enabled' : 'disabled');
+      }
+    } catch (error) {
+      console.error('Error refreshing NFC state:', error);
+    }
+    return this.adapterState;
+  }
 
   /**
    * Initialize NFC Manager
    */
   async initialize(): Promise<boolean> {
     try {
-      // Check if NFC Manager is available
-      if (!NfcManager) {
+      // Check if the reader is available
+      if (!this.driver.isAvailable()) {
         throw new Error('NFC_NOT_AVAILABLE_IN_EXPO_GO');
       }
 
       // Check if NFC is supported
-      const supported = await NfcManager.isSupported();
+      const supported = await this.driver.isSupported();
       if (!supported) {
         throw new Error('NFC_NOT_SUPPORTED');
       }
 
       // Start NFC Manager
-      await NfcManager.start();
+      await this.driver.start();
       this.isInitialized = true;
+      this.watchAdapterState();
+      await this.refreshAdapterState();
       
       console.log('NFC Manager initialized successfully');
       return true;
@@ -53,7 +156,7 @@ class NFCService {
    */
   async isEnabled(): Promise<boolean> {
     try {
-      if (!NfcManager) {
+      if (!this.driver.isAvailable()) {
         return false;
       }
       
@@ -61,7 +164,9 @@ class NFCService {
         await this.initialize();
       }
       
-      return await NfcManager.isEnabled();
+      const enabled = await this.driver.isEnabled();
+      this.setAdapterState(enabled ? 'enabled' : 'disabled');
+      return enabled;
     } catch (error) {
       console.error('Error checking NFC status:', error);
       return false;
@@ -73,10 +178,10 @@ class NFCService {
    */
   async isSupported(): Promise<boolean> {
     try {
-      if (!NfcManager) {
+      if (!this.driver.isAvailable()) {
         return false;
       }
-      return await NfcManager.isSupported();
+      return await this.driver.isSupported();
     } catch (error) {
       console.error('Error checking NFC support:', error);
       return false;
@@ -84,119 +189,251 @@ class NFCService {
   }
 
   /**
-   * Start scanning for NFC tags
+   * Start scanning for NFC tags - aborting the signal cancels the scan
    */
-  async startScanning(): Promise<NFCScanResult> {
+  async startScanning(signal?: AbortSignal): Promise<NFCScanResult> {
     try {
-      if (!NfcManager) {
-        throw new Error('NFC_NOT_AVAILABLE_IN_EXPO_GO');
+      await this.ensureReady();
+
+      console.log('Starting NFC scan...');
+      this.isScanning = true;
+      this.emit({ type: 'scanStarted', continuous: false });
+
+      await this.waitForTag(signal);
+
+      // Get tag information
+      const tagInfo = await this.driver.getTag();
+      console.log('NFC Tag detected:', tagInfo);
+
+      const result = await this.buildScanResult(tagInfo);
+      this.emit({ type: 'scanResult', continuous: false, result });
+      return result;
+
+    } catch (error) {
+      console.error('NFC scan error:', error);
+      const result: NFCScanResult = {
+        success: false,
+        error: this.handleNFCError(error),
+        timestamp: Date.now(),
+      };
+      if (this.isScanning) {
+        this.emit({ type: 'scanResult', continuous: false, result });
+      }
+      return result;
+    } finally {
+      // Clean up
+      await this.stopScanning();
+    }
+  }
+
+  /**
+   * Start continuous scanning - keeps the reader armed and reports every
+   * discovered tag through the callback until stopContinuousScanning is called
+   */
+  async startContinuousScanning(onResult: (result: NFCScanResult) => void): Promise<boolean> {
+    try {
+      if (!this.supportsContinuousScanning()) {
+        throw new Error('NFC_NOT_SUPPORTED');
       }
 
-      if (!this.isInitialized) {
-        const initialized = await this.initialize();
-        if (!initialized) {
-          throw new Error('NFC_NOT_SUPPORTED');
+      await this.ensureReady();
+
+      // Make sure a previous reader session is not left behind
+      await this.stopContinuousScanning();
+
+      const registered = await this.registerTagEvent(async (tag) => {
+        console.log('NFC Tag detected (continuous):', tag);
+
+        // The reader calls back outside any await - a throw here would be an
+        // unhandled rejection and the screen would wait for a result forever
+        let result: NFCScanResult;
+        try {
+          result = await this.buildScanResult(tag);
+        } catch (error) {
+          console.error('Failed to read tag (continuous):', error);
+          const errorType = this.mapErrorToMessage(error);
+          result = {
+            success: false,
+            error: errorType === 'UNKNOWN_ERROR' ? 'CARD_READ_FAILED' : errorType,
+            timestamp: Date.now(),
+          };
         }
-      }
 
-      const isEnabled = await this.isEnabled();
-      if (!isEnabled) {
-        throw new Error('NFC_DISABLED');
+        this.emit({ type: 'scanResult', continuous: true, result });
+        onResult(result);
+      });
+
+      if (!registered) {
+        throw new Error('NFC_NOT_SUPPORTED');
       }
 
-      console.log('Starting NFC scan...');
+      this.isContinuous = true;
+      this.emit({ type: 'scanStarted', continuous: true });
+      console.log('Continuous NFC scanning started');
+      return true;
+    } catch (error) {
+      console.error('Failed to start continuous scanning:', error);
+      onResult({
+        success: false,
+        error: this.handleNFCError(error),
+        timestamp: Date.now(),
+      });
+      return false;
+    }
+  }
 
-      // Request NFC technology for both Android and iOS
-      const techRequest = Platform.OS === 'android' 
-        ? [NfcTech.Ndef, NfcTech.NfcA, NfcTech.NfcB, NfcTech.NfcF, NfcTech.NfcV]
-        : [NfcTech.Ndef];
+  /**
+   * Stop continuous scanning
+   */
+  async stopContinuousScanning(): Promise<void> {
+    if (!this.isContinuous) {
+      return;
+    }
 
-      // Start scanning with timeout
-      const tag = await Promise.race([
-        NfcManager.requestTechnology(techRequest),
-        this.createScanTimeout(),
-      ]);
+    await this.unregisterTagEvent();
+    this.isContinuous = false;
+    this.emit({ type: 'scanStopped', continuous: true });
+    console.log('Continuous NFC scanning stopped');
+  }
 
-      if (!tag) {
-        throw new Error('SCAN_TIMEOUT');
+  /**
+   * Whether the reader can stay armed between tags (reader mode is Android only)
+   */
+  supportsContinuousScanning(): boolean {
+    return this.driver.supportsReaderMode();
+  }
+
+  /**
+   * Whether a continuous scanning session is active
+   */
+  isContinuousScanning(): boolean {
+    return this.isContinuous;
+  }
+
+  /**
+   * Stop NFC scanning
+   */
+  async stopScanning(): Promise<void> {
+    try {
+      if (!this.driver.isAvailable()) {
+        console.warn('NFC Manager not available - cannot stop scanning');
+        return;
       }
+      await this.driver.cancelRequest();
+      console.log('NFC scanning stopped');
+    } catch (error) {
+      console.error('Error stopping NFC scan:', error);
+    } finally {
+      if (this.isScanning) {
+        this.isScanning = false;
+        this.emit({ type: 'scanStopped', continuous: false });
+      }
+    }
+  }
 
-      // Get tag information
-      const tagInfo = await NfcManager.getTag();
-      console.log('NFC Tag detected:', tagInfo);
+  /**
+   * Read a tag and report everything the reader found on it, for field
+   * troubleshooting of cards that do not scan
+   */
+  async diagnoseTag(signal?: AbortSignal): Promise<TagDiagnostics> {
+    try {
+      await this.ensureReady();
 
-      // Extract card ID
-      const cardId = await this.extractCardId(tagInfo);
-      
-      if (!cardId) {
-        throw new Error('INVALID_CARD');
+      await this.waitForTag(signal);
+
+      const tagInfo = await this.driver.getTag();
+      return this.buildDiagnostics(tagInfo);
+
+    } catch (error) {
+      console.error('NFC diagnostics error:', error);
+      return {
+        success: false,
+        error: this.mapErrorToMessage(error),
+        technologies: [],
+        ndefUsedBytes: 0,
+        records: [],
+        signature: 'unchecked',
+        timestamp: Date.now(),
+      };
+    } finally {
+      await this.stopScanning();
+    }
+  }
+
+  /**
+   * Read the emergency record from a card - works entirely offline
+   */
+  async readEmergencyInfo(signal?: AbortSignal): Promise<EmergencyReadResult> {
+    try {
+      await this.ensureReady();
+
+      await this.waitForTag(signal);
+
+      const tagInfo = await this.driver.getTag();
+      const info = decodeEmergencyRecord(tagInfo?.ndefMessage);
+
+      if (!info) {
+        throw new Error('NO_EMERGENCY_INFO');
       }
 
-      console.log('Extracted card ID:', cardId);
+      let cardId: string | undefined;
+      try {
+        cardId = this.extractCardId(tagInfo);
+      } catch (error) {
+        // The emergency details are what matters here
+        console.warn('Could not identify card:', error);
+      }
 
       return {
         success: true,
         cardId,
+        info,
         timestamp: Date.now(),
       };
-
     } catch (error) {
-      console.error('NFC scan error:', error);
+      console.error('Emergency read error:', error);
       return {
         success: false,
         error: this.mapErrorToMessage(error),
         timestamp: Date.now(),
       };
     } finally {
-      // Clean up
       await this.stopScanning();
     }
   }
 
   /**
-   * Stop NFC scanning
+   * Read and decode the NDEF message of a tag (the current tag if none given)
    */
-  async stopScanning(): Promise<void> {
+  async readNdefMessage(tagInfo?: NFCTag | null): Promise<NdefRecord[]> {
     try {
-      if (!NfcManager) {
-        console.warn('NFC Manager not available - cannot stop scanning');
-        return;
-      }
-      await NfcManager.cancelTechnologyRequest();
-      console.log('NFC scanning stopped');
+      const tag = tagInfo ?? await this.driver.getTag();
+      return parseNdefMessage(tag?.ndefMessage);
     } catch (error) {
-      console.error('Error stopping NFC scan:', error);
+      console.error('Error reading NDEF data:', error);
+      return [];
     }
   }
 
   /**
-   * Read NDEF data from NFC tag
+   * Read the text of the first NDEF text record
    */
-  async readNdefData(): Promise<string | null> {
-    try {
-      const tag = await NfcManager.getTag();
-      if (tag?.ndefMessage && tag.ndefMessage.length > 0) {
-        const record = tag.ndefMessage[0];
-        if (record.payload) {
-          // Convert payload to string
-          const text = String.fromCharCode.apply(null, Array.from(record.payload));
-          return text;
-        }
+  async readNdefData(tagInfo?: NFCTag | null): Promise<string | null> {
+    const records = await this.readNdefMessage(tagInfo);
+    for (const record of records) {
+      if (record.kind === 'text') {
+        return record.text;
       }
-      return null;
-    } catch (error) {
-      console.error('Error reading NDEF data:', error);
-      return null;
     }
+    return null;
   }
 
   /**
-   * Write NDEF data to NFC tag (for future use)
+   * Write NDEF text data to the tag of the current request
    */
   async writeNdefData(text: string): Promise<boolean> {
     try {
-      const bytes = Ndef.encodeMessage([Ndef.textRecord(text)]);
-      await NfcManager.ndefHandler.writeNdefMessage(bytes);
+      await this.driver.writeNdefRecords([textRecord(text)]);
       return true;
     } catch (error) {
       console.error('Error writing NDEF data:', error);
@@ -205,63 +442,270 @@ class NFCService {
   }
 
   /**
-   * Extract card ID from NFC tag data
+   * Enroll a blank tag for a pilgrim - waits for a tag, writes the pilgrim's
+   * card record to it, lets the caller bind it and optionally makes it
+   * read-only. The tag is only locked once bound, so a failed bind can be
+   * retried with the same tag.
    */
-  private async extractCardId(tagInfo: any): Promise<string | null> {
+  async enrollCard(
+    pilgrimId: string,
+    options: {
+      lockCard?: boolean;
+      serial?: string;
+      emergencyInfo?: EmergencyInfo; // Written as a second record for offline reading
+      validateCard?: (cardId: string) => Promise<void>;
+      bindCard?: (cardId: string, serial: string) => Promise<void>;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<CardEnrollmentResult> {
     try {
-      // Try different methods to extract card ID based on the tag type
-      
-      // Method 1: Use tag ID directly
-      if (tagInfo?.id) {
-        return this.bytesToHex(tagInfo.id);
+      await this.ensureReady();
+
+      console.log('Waiting for a tag to enroll...');
+
+      await this.waitForTag(options.signal);
+
+      const tagInfo = await this.driver.getTag();
+      const cardId = this.extractCardId(tagInfo);
+
+      if (tagInfo?.isWritable === false) {
+        throw new Error('CARD_WRITE_FAILED');
+      }
+
+      // Let the caller reject the tag (e.g. already bound to someone else)
+      await options.validateCard?.(cardId);
+
+      // Release builds never hand out cards that no reader will accept
+      if (!this.signingKey && !__DEV__) {
+        throw new Error('SIGNING_KEY_MISSING');
       }
 
-      // Method 2: Use UID if available
-      if (tagInfo?.uid) {
-        return this.bytesToHex(tagInfo.uid);
+      const serial = options.serial || Date.now().toString(36).toUpperCase();
+      const record = this.signingKey
+        ? encodeCardRecord(signCardPayload(this.signingKey, pilgrimId, serial, cardId))
+        : textRecord(pilgrimId);
+
+      if (!this.signingKey) {
+        console.warn('No card signing key configured - writing an unsigned card record.');
       }
 
-      // Method 3: Use serial number
-      if (tagInfo?.serialNumber) {
-        return tagInfo.serialNumber;
+      const records = options.emergencyInfo
+        ? [record, encodeEmergencyRecord(options.emergencyInfo)]
+        : [record];
+
+      if (tagInfo?.maxSize && ndefMessageSize(records) > tagInfo.maxSize) {
+        throw new Error('CARD_TOO_SMALL');
       }
 
-      // Method 4: Try to read from NDEF data
-      const ndefData = await this.readNdefData();
-      if (ndefData) {
-        return ndefData;
+      try {
+        await this.driver.writeNdefRecords(records);
+      } catch (error) {
+        console.error('Error writing card record:', error);
+        throw new Error('CARD_WRITE_FAILED');
       }
 
-      // Method 5: Use any available identifier
-      if (tagInfo?.maxSize || tagInfo?.type) {
-        // Generate ID from available properties
-        const identifier = `${tagInfo.type || 'unknown'}_${tagInfo.maxSize || Date.now()}`;
-        return identifier;
+      await options.bindCard?.(cardId, serial);
+
+      if (options.lockCard) {
+        try {
+          await this.driver.makeReadOnly();
+        } catch (error) {
+          console.error('Error locking card:', error);
+          throw new Error('CARD_WRITE_FAILED');
+        }
       }
 
-      return null;
+      console.log('Card enrolled:', cardId);
+
+      return {
+        success: true,
+        cardId,
+        cardSerial: serial,
+        locked: !!options.lockCard,
+        timestamp: Date.now(),
+      };
     } catch (error) {
-      console.error('Error extracting card ID:', error);
-      return null;
+      console.error('Card enrollment error:', error);
+      return {
+        success: false,
+        // Failures of the caller's checks and bind keep their own code
+        error: error instanceof ServiceError ? error.type : this.mapErrorToMessage(error),
+        timestamp: Date.now(),
+      };
+    } finally {
+      await this.stopScanning();
     }
   }
 
   /**
-   * Convert byte array to hex string
+   * Extract card ID from NFC tag data - the normalised UID, see cardIdentity.
+   * Throws INVALID_CARD or AMBIGUOUS_CARD when the tag cannot be identified.
    */
-  private bytesToHex(bytes: number[]): string {
-    return bytes.map(byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+  private extractCardId(tagInfo: NFCTag | null): string {
+    return resolveCardIdentity(tagInfo).cardId;
   }
 
   /**
-   * Create a timeout promise for scanning
+   * Make sure the reader is available, started and switched on
    */
-  private createScanTimeout(): Promise<null> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error('SCAN_TIMEOUT'));
-      }, this.scanTimeout);
-    });
+  private async ensureReady(): Promise<void> {
+    if (!this.driver.isAvailable()) {
+      throw new Error('NFC_NOT_AVAILABLE_IN_EXPO_GO');
+    }
+
+    if (!this.isInitialized) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('NFC_NOT_SUPPORTED');
+      }
+    }
+
+    const isEnabled = await this.isEnabled();
+    if (!isEnabled) {
+      throw new Error('NFC_DISABLED');
+    }
+  }
+
+  /**
+   * Build a scan result from a discovered tag
+   */
+  private async buildScanResult(tagInfo: NFCTag | null): Promise<NFCScanResult> {
+    let cardId: string;
+
+    try {
+      cardId = this.extractCardId(tagInfo);
+    } catch (error) {
+      console.warn('Could not identify card:', error);
+      return {
+        success: false,
+        error: this.mapErrorToMessage(error),
+        timestamp: Date.now(),
+      };
+    }
+
+    console.log('Extracted card ID:', cardId);
+
+    const records = parseNdefMessage(tagInfo?.ndefMessage);
+
+    if (!this.signingKey) {
+      // A release build without the key must not wave every card through
+      if (!__DEV__) {
+        return {
+          success: false,
+          cardId,
+          error: 'SIGNING_KEY_MISSING',
+          timestamp: Date.now(),
+        };
+      }
+
+      return {
+        success: true,
+        cardId,
+        records,
+        timestamp: Date.now(),
+      };
+    }
+
+    // Cards must carry a payload signed for this exact tag
+    const payload = decodeCardRecord(tagInfo?.ndefMessage);
+    if (!payload || !verifyCardPayload(this.signingKey, payload, cardId)) {
+      console.warn('Card signature verification failed for card:', cardId);
+      return {
+        success: false,
+        cardId,
+        error: 'FORGED_CARD',
+        timestamp: Date.now(),
+      };
+    }
+
+    return {
+      success: true,
+      cardId,
+      pilgrimId: payload.pilgrimId,
+      cardSerial: payload.serial,
+      records,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Describe a tag the same way a scan would see it
+   */
+  private buildDiagnostics(tagInfo: NFCTag | null): TagDiagnostics {
+    const uidBytes = tagInfo ? readUidBytes(tagInfo) : null;
+    let cardId: string | undefined;
+    let cardIdError: string | undefined;
+
+    try {
+      cardId = this.extractCardId(tagInfo);
+    } catch (error) {
+      cardIdError = this.mapErrorToMessage(error);
+    }
+
+    let signature: CardSignatureStatus = 'unchecked';
+    if (this.signingKey && cardId) {
+      const payload = decodeCardRecord(tagInfo?.ndefMessage);
+      signature = !payload
+        ? 'missing'
+        : verifyCardPayload(this.signingKey, payload, cardId) ? 'valid' : 'invalid';
+    }
+
+    return {
+      success: !!tagInfo,
+      error: tagInfo ? undefined : 'INVALID_CARD',
+      technologies: tagInfo?.techTypes ?? [],
+      technology: tagInfo ? detectCardTechnology(tagInfo) : undefined,
+      uid: uidBytes ? bytesToHex(uidBytes) : undefined,
+      ndefCapacity: tagInfo?.maxSize,
+      ndefUsedBytes: ndefMessageSize(tagInfo?.ndefMessage),
+      isWritable: tagInfo?.isWritable,
+      records: parseNdefMessage(tagInfo?.ndefMessage),
+      cardId,
+      cardIdError,
+      signature,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Wait for a tag until the scan timeout passes (0 waits indefinitely) or
+   * the signal is aborted. The timer and abort listener are released as soon
+   * as the wait ends, whichever way it ends.
+   */
+  private async waitForTag(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new Error('SCAN_CANCELLED');
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const waits: Promise<NFCTag | null>[] = [this.driver.requestTag()];
+
+    if (this.scanTimeout > 0) {
+      waits.push(new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('SCAN_TIMEOUT')), this.scanTimeout);
+      }));
+    }
+
+    if (signal) {
+      waits.push(new Promise((_, reject) => {
+        onAbort = () => reject(new Error('SCAN_CANCELLED'));
+        signal.addEventListener('abort', onAbort);
+      }));
+    }
+
+    try {
+      const tag = await Promise.race(waits);
+      if (!tag) {
+        throw new Error('SCAN_TIMEOUT');
+      }
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
   }
 
   /**
@@ -271,23 +715,97 @@ class NFCService {
     const errorMessage = error?.message || error?.toString() || '';
     
     if (errorMessage.includes('NFC_NOT_SUPPORTED')) return 'NFC_NOT_SUPPORTED';
+    if (errorMessage.includes('NFC_NOT_AVAILABLE_IN_EXPO_GO')) return 'NFC_NOT_SUPPORTED';
     if (errorMessage.includes('NFC_DISABLED')) return 'NFC_DISABLED';
     if (errorMessage.includes('SCAN_TIMEOUT')) return 'SCAN_TIMEOUT';
+    if (errorMessage.includes('SCAN_CANCELLED')) return 'SCAN_CANCELLED';
     if (errorMessage.includes('INVALID_CARD')) return 'INVALID_CARD';
+    if (errorMessage.includes('AMBIGUOUS_CARD')) return 'AMBIGUOUS_CARD';
+    if (errorMessage.includes('FORGED_CARD')) return 'FORGED_CARD';
+    if (errorMessage.includes('SIGNING_KEY_MISSING')) return 'SIGNING_KEY_MISSING';
+    if (errorMessage.includes('CARD_WRITE_FAILED')) return 'CARD_WRITE_FAILED';
+    if (errorMessage.includes('CARD_TOO_SMALL')) return 'CARD_TOO_SMALL';
+    if (errorMessage.includes('NO_EMERGENCY_INFO')) return 'NO_EMERGENCY_INFO';
+    if (errorMessage.includes('CARD_ALREADY_ASSIGNED')) return 'CARD_ALREADY_ASSIGNED';
+    if (errorMessage.includes('CARD_REVOKED')) return 'CARD_REVOKED';
     if (errorMessage.includes('cancelled') || errorMessage.includes('canceled')) return 'SCAN_TIMEOUT';
     
     return 'UNKNOWN_ERROR';
   }
 
   /**
-   * Handle NFC errors
+   * Handle NFC errors - publishes the error and any adapter state it reveals
    */
-  private handleNFCError(error: any): void {
+  private handleNFCError(error: any): AppError {
     const errorType = this.mapErrorToMessage(error);
     console.error(`NFC Error [${errorType}]:`, error);
-    
-    // Could emit events or trigger callbacks here
-    // this.eventEmitter.emit('nfcError', { type: errorType, error });
+
+    if (errorType === 'NFC_DISABLED') {
+      this.setAdapterState('disabled');
+    } else if (errorType === 'NFC_NOT_SUPPORTED') {
+      this.setAdapterState('unsupported');
+    }
+
+    // Cancelling is the operator's choice, not something to report
+    if (errorType !== 'SCAN_CANCELLED') {
+      this.emit({ type: 'error', error: errorType });
+    }
+    return errorType;
+  }
+
+  /**
+   * Publish an event to every listener
+   */
+  private emit(event: NFCServiceEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('NFC event listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Record the adapter state and publish it when it changed
+   */
+  private setAdapterState(state: NFCAdapterState): void {
+    if (state === this.adapterState) {
+      return;
+    }
+
+    console.log(`NFC adapter state: ${this.adapterState} -> ${state}`);
+    this.adapterState = state;
+    this.emit({ type: 'adapterStateChanged', state });
+
+    // The reader drops its session when NFC goes away
+    if (state !== 'enabled' && this.isContinuous) {
+      this.stopContinuousScanning();
+    }
+  }
+
+  /**
+   * Follow the NFC switch through driver events, and re-check when the app
+   * comes back to the foreground since settings may have changed meanwhile
+   */
+  private watchAdapterState(): void {
+    if (this.stopWatchingAdapter) {
+      return;
+    }
+
+    const stopDriverEvents = this.driver.onStateChange((enabled) => {
+      this.setAdapterState(enabled ? 'enabled' : 'disabled');
+    });
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        this.refreshAdapterState();
+      }
+    });
+
+    this.stopWatchingAdapter = () => {
+      stopDriverEvents();
+      appStateSubscription.remove();
+    };
   }
 
   /**
@@ -295,21 +813,33 @@ class NFCService {
    */
   async openNFCSettings(): Promise<void> {
     try {
-      if (Platform.OS === 'android') {
-        await NfcManager.goToNfcSetting();
-      }
+      await this.driver.openSettings();
     } catch (error) {
       console.error('Error opening NFC settings:', error);
     }
   }
 
   /**
-   * Set scan timeout
+   * Set scan timeout in milliseconds, 0 waits for a tag until cancelled
    */
   setScanTimeout(timeout: number): void {
     this.scanTimeout = timeout;
   }
 
+  /**
+   * Set the agency key used to verify card signatures
+   */
+  setSigningKey(key: string | null): void {
+    this.signingKey = key;
+  }
+
+  /**
+   * Whether card signatures are verified before a scan succeeds
+   */
+  isSignatureVerificationEnabled(): boolean {
+    return !!this.signingKey;
+  }
+
   /**
    * Get current scan timeout
    */
@@ -322,6 +852,7 @@ class NFCService {
    */
   async cleanup(): Promise<void> {
     try {
+      await this.stopContinuousScanning();
       await this.stopScanning();
       if (this.isInitialized) {
         // Note: NfcManager doesn't have a stop method in newer versions
@@ -337,17 +868,14 @@ class NFCService {
   /**
    * Register tag discovered listener (Android only)
    */
-  async registerTagEvent(_callback?: (tag: any) => void): Promise<void> {
+  async registerTagEvent(callback?: (tag: NFCTag) => void): Promise<boolean> {
     try {
-      if (Platform.OS === 'android') {
-        await NfcManager.registerTagEvent({
-          invalidateAfterFirstRead: true,
-          alertMessage: "ضع الرقاقة بالقرب من الجهاز",
-          readerModeDelay: 1000
-        });
-      }
+      return await this.driver.registerTagListener((tag) => {
+        callback?.(tag);
+      });
     } catch (error) {
       console.error('Error registering tag event:', error);
+      return false;
     }
   }
 
@@ -356,9 +884,7 @@ class NFCService {
    */
   async unregisterTagEvent(): Promise<void> {
     try {
-      if (Platform.OS === 'android') {
-        await NfcManager.unregisterTagEvent();
-      }
+      await this.driver.unregisterTagListener();
     } catch (error) {
       console.error('Error unregistering tag event:', error);
     }
@@ -0,0 +1,123 @@
+import { NFCTag, NFCTagRecord } from '@/src/types';
+import { Platform } from 'react-native';
+import { NFCDriver } from './driver';
+
+// Conditional import for NFC Manager - handles Expo Go environment
+let NfcManager: any = null;
+let NfcTech: any = null;
+let NfcEvents: any = null;
+let Ndef: any = null;
+
+try {
+  const nfcModule = require('react-native-nfc-manager');
+  NfcManager = nfcModule.default;
+  NfcTech = nfcModule.NfcTech;
+  NfcEvents = nfcModule.NfcEvents;
+  Ndef = nfcModule.Ndef;
+} catch (error) {
+  console.warn('NFC Manager not available - likely running in Expo Go. NFC features will be disabled.');
+}
+
+/**
+ * NFC driver backed by react-native-nfc-manager
+ */
+export class NativeNFCDriver implements NFCDriver {
+  readonly name = 'native' as const;
+
+  isAvailable(): boolean {
+    return !!NfcManager;
+  }
+
+  async isSupported(): Promise<boolean> {
+    return await NfcManager.isSupported();
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return await NfcManager.isEnabled();
+  }
+
+  async start(): Promise<void> {
+    await NfcManager.start();
+  }
+
+  async requestTag(): Promise<NFCTag | null> {
+    // Request NFC technology for both Android and iOS - on iOS the tag reader
+    // technologies are needed, an NDEF-only session does not expose the UID
+    const techRequest = Platform.OS === 'android'
+      ? [NfcTech.Ndef, NfcTech.NfcA, NfcTech.NfcB, NfcTech.NfcF, NfcTech.NfcV]
+      : [NfcTech.MifareIOS, NfcTech.Iso15693IOS, NfcTech.FelicaIOS];
+
+    return await NfcManager.requestTechnology(techRequest);
+  }
+
+  async cancelRequest(): Promise<void> {
+    await NfcManager.cancelTechnologyRequest();
+  }
+
+  async getTag(): Promise<NFCTag | null> {
+    return await NfcManager.getTag();
+  }
+
+  supportsReaderMode(): boolean {
+    return !!NfcManager && Platform.OS === 'android';
+  }
+
+  async registerTagListener(listener: (tag: NFCTag) => void): Promise<boolean> {
+    if (!this.supportsReaderMode()) {
+      return false;
+    }
+
+    NfcManager.setEventListener(NfcEvents.DiscoverTag, listener);
+    await NfcManager.registerTagEvent({
+      invalidateAfterFirstRead: false,
+      alertMessage: "ضع الرقاقة بالقرب من الجهاز",
+      readerModeDelay: 1000
+    });
+    return true;
+  }
+
+  async unregisterTagListener(): Promise<void> {
+    if (!this.supportsReaderMode()) {
+      return;
+    }
+
+    NfcManager.setEventListener(NfcEvents.DiscoverTag, null);
+    await NfcManager.unregisterTagEvent();
+  }
+
+  async writeNdefRecords(records: NFCTagRecord[]): Promise<void> {
+    const bytes = Ndef.encodeMessage(
+      records.map((record) => Ndef.record(record.tnf, record.type, record.id ?? [], record.payload))
+    );
+    await NfcManager.ndefHandler.writeNdefMessage(bytes);
+  }
+
+  async makeReadOnly(): Promise<void> {
+    await NfcManager.ndefHandler.makeReadOnly();
+  }
+
+  async openSettings(): Promise<void> {
+    if (Platform.OS === 'android') {
+      await NfcManager.goToNfcSetting();
+    }
+  }
+
+  onStateChange(listener: (enabled: boolean) => void): () => void {
+    // iOS has no NFC switch, so only Android reports state changes
+    if (!NfcManager || Platform.OS !== 'android') {
+      return () => {};
+    }
+
+    NfcManager.setEventListener(NfcEvents.StateChanged, ({ state }: { state: string }) => {
+      // Transitional turning_on / turning_off states are ignored
+      if (state === 'on' || state === 'off') {
+        listener(state === 'on');
+      }
+    });
+
+    return () => NfcManager.setEventListener(NfcEvents.StateChanged, null);
+  }
+}
+
+export const nativeNFCDriver = new NativeNFCDriver();
+export default nativeNFCDriver;
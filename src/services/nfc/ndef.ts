@@ -0,0 +1,171 @@
+import { NdefRecord, NFCTagRecord } from '@/src/types';
+import { utf8Decode, utf8Encode } from './encoding';
+
+// NDEF type name formats
+export const TNF_EMPTY = 0x00;
+export const TNF_WELL_KNOWN = 0x01;
+export const TNF_MIME_MEDIA = 0x02;
+export const TNF_ABSOLUTE_URI = 0x03;
+export const TNF_EXTERNAL_TYPE = 0x04;
+
+// Well-known record types
+const RTD_TEXT = [0x54]; // "T"
+const RTD_URI = 'U';
+
+// URI identifier codes from the NFC Forum URI record type definition
+const URI_PREFIXES = [
+  '', 'http://www.', 'https://www.', 'http://', 'https://', 'tel:', 'mailto:',
+  'ftp://anonymous:anonymous@', 'ftp://ftp.', 'ftps://', 'sftp://', 'smb://',
+  'nfs://', 'ftp://', 'dav://', 'news:', 'telnet://', 'imap:', 'rtsp://', 'urn:',
+  'pop:', 'sip:', 'sips:', 'tftp:', 'btspp://', 'btl2cap://', 'btgoep://',
+  'tcpobex://', 'irdaobex://', 'file://', 'urn:epc:id:', 'urn:epc:tag:',
+  'urn:epc:pat:', 'urn:epc:raw:', 'urn:epc:', 'urn:nfc:',
+];
+
+/**
+ * Create an NDEF text record (UTF-8)
+ */
+export const textRecord = (text: string, language = 'en'): NFCTagRecord => {
+  const languageBytes = utf8Encode(language);
+
+  return {
+    tnf: TNF_WELL_KNOWN,
+    type: RTD_TEXT,
+    // Status byte: bit 7 clear = UTF-8, low bits = language code length
+    payload: [languageBytes.length & 0x3f, ...languageBytes, ...utf8Encode(text)],
+  };
+};
+
+/**
+ * Read a record's type field as a string
+ */
+export const recordTypeName = (record: NFCTagRecord): string => {
+  return typeof record.type === 'string' ? record.type : utf8Decode(record.type || []);
+};
+
+/**
+ * Decode UTF-16 bytes, honouring a byte order mark (big endian without one)
+ */
+const utf16Decode = (bytes: number[]): string => {
+  let littleEndian = false;
+  let start = 0;
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    littleEndian = true;
+    start = 2;
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    start = 2;
+  }
+
+  const units: number[] = [];
+  for (let i = start; i + 1 < bytes.length; i += 2) {
+    units.push(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+  }
+  return String.fromCharCode(...units);
+};
+
+/**
+ * Decode a well-known text record payload into its text and language
+ */
+export const decodeTextPayload = (payload: number[]): { text: string; language: string } => {
+  if (payload.length === 0) {
+    return { text: '', language: '' };
+  }
+
+  // Status byte: bit 7 set = UTF-16, low 6 bits = language code length
+  const status = payload[0];
+  const languageLength = status & 0x3f;
+  const language = utf8Decode(payload.slice(1, 1 + languageLength));
+  const body = payload.slice(1 + languageLength);
+
+  return {
+    text: status & 0x80 ? utf16Decode(body) : utf8Decode(body),
+    language,
+  };
+};
+
+/**
+ * Decode a well-known URI record payload into the full URI
+ */
+export const decodeUriPayload = (payload: number[]): string => {
+  if (payload.length === 0) {
+    return '';
+  }
+
+  const prefix = URI_PREFIXES[payload[0]] ?? '';
+  return prefix + utf8Decode(payload.slice(1));
+};
+
+const isJsonMimeType = (mimeType: string) =>
+  mimeType === 'application/json' || mimeType.endsWith('+json');
+
+/**
+ * Decode a single NDEF record into a typed record
+ */
+export const decodeNdefRecord = (record: NFCTagRecord): NdefRecord => {
+  const type = recordTypeName(record);
+  const payload = Array.from(record.payload || []);
+
+  switch (record.tnf) {
+    case TNF_EMPTY:
+      return { kind: 'empty', raw: record };
+
+    case TNF_WELL_KNOWN:
+      if (type === 'T') {
+        return { kind: 'text', ...decodeTextPayload(payload), raw: record };
+      }
+      if (type === RTD_URI) {
+        return { kind: 'uri', uri: decodeUriPayload(payload), raw: record };
+      }
+      break;
+
+    case TNF_ABSOLUTE_URI:
+      return { kind: 'uri', uri: type, raw: record };
+
+    case TNF_MIME_MEDIA: {
+      const mimeType = type.toLowerCase();
+      const decoded: NdefRecord = { kind: 'mime', mimeType, data: payload, raw: record };
+
+      if (isJsonMimeType(mimeType)) {
+        try {
+          decoded.json = JSON.parse(utf8Decode(payload));
+        } catch (error) {
+          console.warn('Invalid JSON in NDEF record:', error);
+        }
+      } else if (mimeType.startsWith('text/')) {
+        decoded.text = utf8Decode(payload);
+      }
+      return decoded;
+    }
+
+    case TNF_EXTERNAL_TYPE:
+      // External type names are case-insensitive
+      return { kind: 'external', type: type.toLowerCase(), payload, raw: record };
+  }
+
+  return { kind: 'unknown', tnf: record.tnf, type, payload, raw: record };
+};
+
+/**
+ * Size in bytes of an NDEF message once encoded on a tag
+ */
+export const ndefMessageSize = (records: NFCTagRecord[] = []): number => {
+  return records.reduce((size, record) => {
+    const typeLength = typeof record.type === 'string'
+      ? utf8Encode(record.type).length
+      : (record.type || []).length;
+    const idLength = record.id?.length ?? 0;
+    const payloadLength = record.payload?.length ?? 0;
+
+    // Header, type length, payload length (1 byte for short records), id length if present
+    const headerLength = 2 + (payloadLength < 256 ? 1 : 4) + (idLength > 0 ? 1 : 0);
+    return size + headerLength + typeLength + idLength + payloadLength;
+  }, 0);
+};
+
+/**
+ * Decode every record of an NDEF message, in order
+ */
+export const parseNdefMessage = (records: NFCTagRecord[] = []): NdefRecord[] => {
+  return records.map(decodeNdefRecord);
+};
@@ -0,0 +1,219 @@
+import { NFCTag, NFCTagRecord, SimulatedNFCEvent } from '@/src/types';
+import { sha256 } from './cardSignature';
+import { NFCDriver } from './driver';
+import { bytesToHex, utf8Encode } from './encoding';
+
+const SIMULATED_READ_DELAY = 400; // Mimic the time a real tap takes
+const NXP_MANUFACTURER_CODE = 0x04;
+
+/**
+ * Turn a card ID typed into the simulator into the UID a real tag reports.
+ * Hex UIDs of an NfcA length are used as they are, any other label maps to
+ * a stable 7-byte NXP UID so it resolves like a real card.
+ */
+export const toSimulatedUid = (cardId: string): string => {
+  const hex = cardId.replace(/[\s:-]/g, '');
+  if (/^([0-9a-fA-F]{2})+$/.test(hex) && [4, 7, 10].includes(hex.length / 2)) {
+    return hex.toUpperCase();
+  }
+
+  return bytesToHex([NXP_MANUFACTURER_CODE, ...sha256(utf8Encode(cardId)).slice(0, 6)]);
+};
+
+/**
+ * NFC driver that emits scripted or manually picked tags.
+ *
+ * Used in Expo Go, on the web and in development so the scanner flow,
+ * useNFC and the store work on machines without NFC hardware.
+ */
+export class SimulatedNFCDriver implements NFCDriver {
+  readonly name = 'simulated' as const;
+
+  private enabled = true;
+  private script: SimulatedNFCEvent[] = [];
+  private currentTag: NFCTag | null = null;
+  private pendingRequest: {
+    resolve: (tag: NFCTag | null) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private tagListener: ((tag: NFCTag) => void) | null = null;
+  private stateListeners = new Set<(enabled: boolean) => void>();
+  private writtenRecords = new Map<string, NFCTagRecord[]>();
+  private readOnlyTags = new Set<string>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async isSupported(): Promise<boolean> {
+    return true;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return this.enabled;
+  }
+
+  async start(): Promise<void> {
+    console.log('Simulated NFC reader started');
+  }
+
+  async requestTag(): Promise<NFCTag | null> {
+    if (this.pendingRequest) {
+      throw new Error('NFC request already in progress');
+    }
+
+    const request = new Promise<NFCTag | null>((resolve, reject) => {
+      this.pendingRequest = { resolve, reject };
+    });
+
+    // Scripted events are played back in order, one per request
+    const next = this.script.shift();
+    if (next) {
+      setTimeout(() => this.emit(next), SIMULATED_READ_DELAY);
+    }
+
+    return request;
+  }
+
+  async cancelRequest(): Promise<void> {
+    if (this.pendingRequest) {
+      this.pendingRequest.reject(new Error('Request cancelled'));
+      this.pendingRequest = null;
+    }
+  }
+
+  async getTag(): Promise<NFCTag | null> {
+    return this.currentTag;
+  }
+
+  supportsReaderMode(): boolean {
+    return true;
+  }
+
+  async registerTagListener(listener: (tag: NFCTag) => void): Promise<boolean> {
+    this.tagListener = listener;
+    return true;
+  }
+
+  async unregisterTagListener(): Promise<void> {
+    this.tagListener = null;
+  }
+
+  async writeNdefRecords(records: NFCTagRecord[]): Promise<void> {
+    const cardId = this.currentTag?.id ? String(this.currentTag.id) : null;
+    if (!cardId) {
+      throw new Error('No simulated tag to write to');
+    }
+    if (this.readOnlyTags.has(cardId)) {
+      throw new Error('Simulated tag is read-only');
+    }
+
+    this.writtenRecords.set(cardId, records);
+    this.currentTag = this.createTag(cardId);
+  }
+
+  async makeReadOnly(): Promise<void> {
+    if (!this.currentTag?.id) {
+      throw new Error('No simulated tag to lock');
+    }
+    this.readOnlyTags.add(String(this.currentTag.id));
+    this.currentTag = this.createTag(String(this.currentTag.id));
+  }
+
+  async openSettings(): Promise<void> {
+    console.log('Simulated NFC reader has no settings');
+  }
+
+  onStateChange(listener: (enabled: boolean) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Emit an event to the pending request or the registered tag listener
+   */
+  emit(event: SimulatedNFCEvent): void {
+    if (event.type === 'timeout') {
+      // A timeout only means something to a single pending request
+      if (this.pendingRequest) {
+        this.pendingRequest.reject(new Error('SCAN_TIMEOUT'));
+        this.pendingRequest = null;
+      }
+      return;
+    }
+
+    const tag = event.type === 'card'
+      ? this.createTag(event.cardId)
+      : this.createInvalidTag();
+
+    this.currentTag = tag;
+
+    if (this.pendingRequest) {
+      this.pendingRequest.resolve(tag);
+      this.pendingRequest = null;
+    } else if (this.tagListener) {
+      this.tagListener(tag);
+    } else {
+      console.warn('Simulated NFC event dropped - nothing is listening');
+    }
+  }
+
+  /**
+   * Tap a card with the given ID
+   */
+  tap(cardId: string): void {
+    this.emit({ type: 'card', cardId });
+  }
+
+  /**
+   * Queue events that are played back one per scan request
+   */
+  setScript(events: SimulatedNFCEvent[]): void {
+    this.script = [...events];
+  }
+
+  /**
+   * Toggle the simulated NFC switch
+   */
+  setEnabled(enabled: boolean): void {
+    if (this.enabled === enabled) {
+      return;
+    }
+
+    this.enabled = enabled;
+    this.stateListeners.forEach((listener) => listener(enabled));
+  }
+
+  /**
+   * Whether a scan request is waiting for a tag
+   */
+  isWaitingForTag(): boolean {
+    return !!this.pendingRequest || !!this.tagListener;
+  }
+
+  private createTag(cardId: string): NFCTag {
+    const uid = toSimulatedUid(cardId);
+
+    return {
+      id: uid,
+      type: 'simulated',
+      techTypes: ['android.nfc.tech.NfcA', 'android.nfc.tech.Ndef'],
+      maxSize: 504,
+      isWritable: !this.readOnlyTags.has(uid),
+      ndefMessage: this.writtenRecords.get(uid) ?? [],
+    };
+  }
+
+  private createInvalidTag(): NFCTag {
+    // No identifier and no NDEF data - cannot be resolved to a card ID
+    return {
+      techTypes: [],
+      ndefMessage: [],
+    };
+  }
+}
+
+export const simulatedNFCDriver = new SimulatedNFCDriver();
+export default simulatedNFCDriver;
@@ -0,0 +1,50 @@
+import { installEventSource } from '../eventSource';
+
+describe('installEventSource', () => {
+  const original = (globalThis as any).EventSource;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    delete (globalThis as any).EventSource;
+    installEventSource();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    (globalThis as any).EventSource = original;
+  });
+
+  it('provides a global EventSource', () => {
+    expect(typeof (globalThis as any).EventSource).toBe('function');
+  });
+
+  it('leaves an existing EventSource alone', () => {
+    const existing = jest.fn();
+    (globalThis as any).EventSource = existing;
+
+    installEventSource();
+
+    expect((globalThis as any).EventSource).toBe(existing);
+  });
+
+  it('reports errors through onerror, as the PocketBase SDK expects', () => {
+    const source = new (globalThis as any).EventSource('http://127.0.0.1:8090/api/realtime');
+    const onerror = jest.fn();
+    source.onerror = onerror;
+
+    source.dispatch('error', { type: 'error', message: 'offline', xhrState: 4, xhrStatus: 0 });
+
+    expect(onerror).toHaveBeenCalledWith(expect.objectContaining({ message: 'offline' }));
+    source.close();
+  });
+
+  it('does not reconnect once closed', () => {
+    const source = new (globalThis as any).EventSource('http://127.0.0.1:8090/api/realtime');
+    source.close();
+
+    source.open();
+    jest.runAllTimers();
+
+    expect(source._xhr).toBeNull();
+  });
+});
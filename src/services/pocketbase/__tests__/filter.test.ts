@@ -0,0 +1,43 @@
+import PocketBase from 'pocketbase';
+import { ServiceError } from '../../errors';
+import { bindFilter, containsPattern } from '../filter';
+
+const client = new PocketBase('http://127.0.0.1:8090');
+
+describe('containsPattern', () => {
+  it('wraps the text so it still matches as a substring', () => {
+    expect(containsPattern('Ahmad')).toBe('%Ahmad%');
+  });
+
+  it('escapes LIKE wildcards and keeps the explicit wrapping', () => {
+    expect(containsPattern('50%')).toBe('%50\\%%');
+    expect(containsPattern('a_b')).toBe('%a\\_b%');
+  });
+
+  it('escapes backslashes so a trailing one cannot reach the closing quote', () => {
+    const pattern = containsPattern('C:\\');
+
+    expect(pattern).toBe('%C:\\\\%');
+    expect(() => bindFilter(client, 'full_name ~ {:query}', { query: pattern })).not.toThrow();
+  });
+});
+
+describe('bindFilter', () => {
+  it('binds and quotes values', () => {
+    expect(bindFilter(client, 'nfc_card_id = {:cardId} && seat_number = {:seat}', {
+      cardId: "04A1'B2",
+      seat: 12,
+    })).toBe("nfc_card_id = '04A1\\'B2' && seat_number = 12");
+  });
+
+  it('keeps backslashes inside a value', () => {
+    expect(bindFilter(client, 'card_id = {:cardId}', { cardId: 'a\\b' })).toBe("card_id = 'a\\b'");
+  });
+
+  it('refuses a value ending in a backslash instead of altering it', () => {
+    const bind = () => bindFilter(client, 'card_id = {:cardId} || 1 = 1', { cardId: 'abc\\' });
+
+    expect(bind).toThrow(ServiceError);
+    expect(bind).toThrow('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,96 @@
+import { pocketbaseService } from '..';
+
+const pilgrim = { id: 'p1', full_name: 'Ahmad', nfc_card_id: '' };
+
+// Answers like a server with the batch API turned off, the PocketBase default
+const fetchMock = jest.fn(async (url: string, options: { method: string; body?: string }) => {
+  const { pathname } = new URL(url);
+  const reply = (status: number, body: unknown) => ({ url, status, json: async () => body });
+
+  if (pathname === '/api/batch') {
+    return reply(403, { status: 403, message: 'Batch requests are not allowed.' });
+  }
+  if (pathname === '/api/collections/pilgrims/records/p1') {
+    return reply(200, options.method === 'PATCH' ? { ...pilgrim, ...JSON.parse(options.body!) } : pilgrim);
+  }
+  if (pathname === '/api/collections/pilgrims/records/p2') {
+    return reply(404, { status: 404, message: 'Not found.' });
+  }
+  if (/^\/api\/collections\/(pilgrim_cards|leg_boardings|scan_events)\/records$/.test(pathname)) {
+    return options.method === 'POST'
+      ? reply(200, { id: 'c1', ...JSON.parse(options.body!) })
+      : reply(200, { page: 1, perPage: 1000, totalItems: 0, totalPages: 0, items: [] });
+  }
+  return reply(404, { status: 404, message: 'Not found.' });
+});
+
+describe('writes on a server with batches turned off', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock.mockClear();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('binds a card one record at a time', async () => {
+    const updated = await pocketbaseService.issueCard('p1', { cardId: '04A1B2C3', serial: 'S1' });
+
+    expect(updated.nfc_card_id).toBe('04A1B2C3');
+    const writes = fetchMock.mock.calls
+      .filter(([, options]) => options.method !== 'GET')
+      .map(([url, options]) => `${options.method} ${new URL(url).pathname}`);
+    expect(writes).toEqual([
+      'POST /api/batch',
+      'POST /api/collections/pilgrim_cards/records',
+      'PATCH /api/collections/pilgrims/records/p1',
+    ]);
+  });
+
+  it('boards a pilgrim on the leg with their status and scan event', async () => {
+    const event = {
+      type: 'status_change',
+      result: 'SUCCESS',
+      pilgrim: 'p1',
+      card_id: '04A1B2C3',
+      status: 'onboard',
+      leg: 'l1',
+      bus: 'b1',
+      operator: 'Ali',
+      device_id: 'd1',
+      session_id: 's1',
+      timestamp: '2025-06-01T08:00:00.000Z',
+    } as const;
+
+    const { boarding, pilgrim: updated } = await pocketbaseService.updateLegBoardingStatus(
+      'l1', 'p1', 'onboard', 'b1', event
+    );
+
+    expect(boarding).toMatchObject({ leg: 'l1', pilgrim: 'p1', bus: 'b1', status: 'onboard' });
+    expect(updated.status).toBe('onboard');
+    const eventWrite = fetchMock.mock.calls.find(([url]) => url.includes('/scan_events/'));
+    expect(JSON.parse(eventWrite![1].body!)).toEqual(event);
+  });
+
+  it('reports each pilgrim of a bulk change on its own', async () => {
+    const result = await pocketbaseService.updatePilgrimsStatus(['p1', 'p2'], 'offboard', 'l1');
+
+    expect(result.updated.map((updated) => updated.id)).toEqual(['p1']);
+    expect(result.failed).toEqual([{ pilgrimId: 'p2', error: 'PILGRIM_NOT_FOUND' }]);
+  });
+
+  it('stops trying batches once the server refused one', async () => {
+    await pocketbaseService.issueCard('p1', { cardId: '04A1B2C3', serial: 'S1' });
+    fetchMock.mockClear();
+
+    await pocketbaseService.issueCard('p1', { cardId: '04D4E5F6', serial: 'S2' });
+
+    const batchCalls = fetchMock.mock.calls.filter(([url]) => new URL(url).pathname === '/api/batch');
+    expect(batchCalls).toHaveLength(0);
+  });
+});
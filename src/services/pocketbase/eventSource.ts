@@ -0,0 +1,41 @@
+import RNEventSource from 'react-native-sse';
+
+/**
+ * EventSource for the PocketBase realtime client on React Native, which does
+ * not ship one. react-native-sse only reports errors to listeners, while the
+ * SDK assigns onerror - that is bridged here so the SDK notices a dropped
+ * connection and reconnects.
+ */
+class RealtimeEventSource extends RNEventSource<string> {
+  onerror: ((event: unknown) => void) | null = null;
+
+  private closed = false;
+
+  constructor(url: URL | string) {
+    super(url);
+    this.addEventListener('error', (event) => this.onerror?.(event));
+  }
+
+  // react-native-sse schedules its own reconnect after an error, which would
+  // reopen a source the SDK already closed and replaced
+  open(): void {
+    if (!this.closed) {
+      super.open();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    super.close();
+  }
+}
+
+/**
+ * Provide the global EventSource the SDK connects with, unless the runtime
+ * already has one
+ */
+export const installEventSource = (): void => {
+  if (!('EventSource' in globalThis)) {
+    (globalThis as any).EventSource = RealtimeEventSource;
+  }
+};
@@ -0,0 +1,36 @@
+import type PocketBase from 'pocketbase';
+import { ServiceError } from '../errors';
+
+// Values bound into {:name} placeholders of a filter expression
+export type FilterParams = Record<string, string | number | boolean | null>;
+
+/**
+ * Pattern for a `~` contains-search. LIKE wildcards in the text are escaped
+ * so "50%" matches that text instead of everything starting with "50". Once
+ * a value holds a `%` PocketBase no longer wraps it in `%…%` itself, so the
+ * wrapping is done here.
+ */
+export const containsPattern = (text: string): string =>
+  `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+/**
+ * Bind values into a filter expression. The SDK quotes strings and escapes
+ * their quotes, but PocketBase reads a backslash right before the closing
+ * quote as escaping it, and the filter grammar has no way to write that
+ * backslash literally - a value ending in one would swallow the rest of the
+ * filter. Such values are refused rather than altered.
+ */
+export const bindFilter = (
+  client: Pick<PocketBase, 'filter'>,
+  expression: string,
+  params: FilterParams
+): string => {
+  const hasTrailingBackslash = Object.values(params).some(
+    (value) => typeof value === 'string' && value.endsWith('\\')
+  );
+  if (hasTrailingBackslash) {
+    throw new ServiceError('VALIDATION_ERROR');
+  }
+
+  return client.filter(expression, params);
+};
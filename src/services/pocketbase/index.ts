@@ -1,16 +1,155 @@
-import { Pilgrim, PilgrimCreate, PilgrimUpdate, PocketBaseError } from '@/src/types';
+import {
+  API_TIMEOUT,
+  AppError,
+  AuthSession,
+  BATCH_MAX_REQUESTS,
+  BoardingStatus,
+  BulkStatusFailure,
+  BulkStatusResult,
+  DEFAULT_SERVER_PROFILE,
+  Bus,
+  CardRevokeReason,
+  LegBoarding,
+  LegStats,
+  Operator,
+  Pilgrim,
+  PilgrimCreate,
+  PilgrimNfcCard,
+  PilgrimStats,
+  PilgrimUpdate,
+  ScanEvent,
+  ScanEventCreate,
+  StatsBreakdownEntry,
+  StatsDimension,
+  Trip,
+  TripLeg,
+} from '@/src/types';
 import PocketBase from 'pocketbase';
+import { ServiceError, toServiceError } from '../errors';
+import { installEventSource } from './eventSource';
+import { bindFilter, containsPattern, FilterParams } from './filter';
 
-// PocketBase client configuration
-const POCKETBASE_URL = 'https://ahmedb.qb4.tech';
+// Optional emergency fields written to cards: group_leader_phone, bus_number,
+// hotel, medical_notes (text). Bus assignment: bus (relation)
 const COLLECTION_NAME = 'pilgrims';
+// Card history: pilgrim (relation), card_id, serial, status ('active' | 'revoked'),
+// revoked_at (date), revoke_reason (text)
+const CARDS_COLLECTION_NAME = 'pilgrim_cards';
+// Convoy buses: number, plate_number, driver_name, driver_phone (text), capacity (number)
+const BUSES_COLLECTION_NAME = 'buses';
+// Trips: name, start_date, end_date
+const TRIPS_COLLECTION_NAME = 'trips';
+// Itinerary legs: trip (relation), name, origin, destination, sequence (number),
+// departure_time (date), status ('scheduled' | 'active' | 'completed')
+const LEGS_COLLECTION_NAME = 'trip_legs';
+// Boarding per pilgrim per leg: leg (relation), pilgrim (relation), bus (relation),
+// status ('onboard' | 'offboard'), boarded_at (date), offboarded_at (date)
+const BOARDINGS_COLLECTION_NAME = 'leg_boardings';
+// Audit trail, create-only API rules: type, pilgrim (relation), card_id, result,
+// status, leg (relation), bus (relation), operator, device_id, session_id (text),
+// timestamp (date)
+const SCAN_EVENTS_COLLECTION_NAME = 'scan_events';
+// Aggregate view, one row per group so counts arrive without the records:
+//   SELECT (ROW_NUMBER() OVER()) AS id, dimension, value, total, onboard FROM (
+//     SELECT 'bus' AS dimension, bus AS value, COUNT(*) AS total,
+//       SUM(status = 'onboard') AS onboard FROM pilgrims GROUP BY bus
+//     UNION ALL ... GROUP BY nationality UNION ALL ... GROUP BY sex)
+const STATS_VIEW_NAME = 'pilgrim_stats';
+// Auth collection for app users: name (text), role ('scanner' | 'group_leader' |
+// 'supervisor' | 'admin'). API rules on the other collections check @request.auth.role
+const OPERATORS_COLLECTION_NAME = 'operators';
+
+export type { FilterParams };
+
+// A record create, or an update when id is set, for sendWrites
+interface RecordWrite {
+  collection: string;
+  id?: string;
+  body: Record<string, any>;
+}
 
 class PocketBaseService {
   private pb: PocketBase;
+  // Set once the server answers that its batch API is turned off
+  private batchesDisabled = false;
 
   constructor() {
-    this.pb = new PocketBase(POCKETBASE_URL);
-    // No authentication required as per requirements
+    // The realtime client connects through the global EventSource
+    installEventSource();
+    this.pb = new PocketBase(DEFAULT_SERVER_PROFILE.url);
+  }
+
+  /**
+   * Point the client at another server. Pending requests, realtime
+   * subscriptions and the session of the old client are dropped with it.
+   */
+  setBaseUrl(url: string) {
+    if (url === this.pb.baseURL) {
+      return;
+    }
+
+    const previous = this.pb;
+    previous.cancelAllRequests();
+    previous.authStore.clear();
+    previous.realtime.unsubscribe().catch((error) => {
+      console.error('Error closing realtime connection:', error);
+    });
+
+    this.pb = new PocketBase(url);
+    this.batchesDisabled = false;
+  }
+
+  getBaseUrl(): string {
+    return this.pb.baseURL;
+  }
+
+  /**
+   * Sign an operator in with email and password
+   */
+  async login(email: string, password: string): Promise<AuthSession> {
+    try {
+      const { token, record } = await this.pb
+        .collection(OPERATORS_COLLECTION_NAME)
+        .authWithPassword<Operator>(email, password);
+      return { token, operator: record };
+    } catch (error) {
+      console.error('Error signing in:', error);
+      // PocketBase answers wrong credentials with a 400
+      const serviceError = this.handleError(error);
+      throw serviceError.status === 400
+        ? new ServiceError('INVALID_CREDENTIALS', { status: serviceError.status })
+        : serviceError;
+    }
+  }
+
+  /**
+   * Renew the token of the signed-in operator and reload their record
+   */
+  async refreshAuth(): Promise<AuthSession> {
+    try {
+      const { token, record } = await this.pb
+        .collection(OPERATORS_COLLECTION_NAME)
+        .authRefresh<Operator>();
+      return { token, operator: record };
+    } catch (error) {
+      console.error('Error refreshing auth:', error);
+      // A deleted operator ends the session just like a rejected token
+      throw this.handleError(error, 'SESSION_EXPIRED');
+    }
+  }
+
+  /**
+   * Use a session saved on the device for the following requests
+   */
+  restoreAuth(session: AuthSession) {
+    this.pb.authStore.save(session.token, session.operator);
+  }
+
+  /**
+   * Drop the token of the signed-in operator
+   */
+  logout() {
+    this.pb.authStore.clear();
   }
 
   /**
@@ -31,7 +170,7 @@ class PocketBaseService {
   /**
    * Get paginated pilgrims with optional filters
    */
-  async getPilgrims(page = 1, perPage = 50, filter?: string): Promise<{
+  async getPilgrims(page = 1, perPage = 50, filter?: string, params: FilterParams = {}): Promise<{
     items: Pilgrim[];
     totalItems: number;
     totalPages: number;
@@ -39,7 +178,7 @@ class PocketBaseService {
     try {
       const response = await this.pb.collection(COLLECTION_NAME).getList<Pilgrim>(page, perPage, {
         sort: '-updated',
-        filter: filter || '',
+        filter: filter ? this.filter(filter, params) : '',
       });
       
       return {
@@ -62,34 +201,200 @@ class PocketBaseService {
       return pilgrim;
     } catch (error) {
       console.error('Error fetching pilgrim by ID:', error);
-      throw this.handleError(error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
     }
   }
 
   /**
-   * Find pilgrim by NFC card ID
+   * Find pilgrim by NFC card ID - throws CARD_REVOKED for cards that were revoked
    */
   async getPilgrimByNfcId(nfcCardId: string): Promise<Pilgrim | null> {
+    let pilgrim: Pilgrim | null = null;
+
     try {
-      const response = await this.pb.collection(COLLECTION_NAME).getFirstListItem<Pilgrim>(
-        `nfc_card_id="${nfcCardId}"`
+      pilgrim = await this.pb.collection(COLLECTION_NAME).getFirstListItem<Pilgrim>(
+        this.filter('nfc_card_id = {:cardId}', { cardId: nfcCardId })
       );
-      return response;
+    } catch (error) {
+      if (!this.isNotFoundError(error)) {
+        console.error('Error fetching pilgrim by NFC ID:', error);
+        throw this.handleError(error);
+      }
+    }
+
+    if (pilgrim) {
+      return pilgrim;
+    }
+
+    // Fall back to the card history
+    const card = await this.getCardByCardId(nfcCardId);
+    if (!card) {
+      return null;
+    }
+
+    if (card.status === 'revoked') {
+      throw new ServiceError('CARD_REVOKED');
+    }
+
+    return await this.getPilgrimById(card.pilgrim);
+  }
+
+  /**
+   * Find a card history entry by NFC card ID (most recent first)
+   */
+  async getCardByCardId(nfcCardId: string): Promise<PilgrimNfcCard | null> {
+    try {
+      const card = await this.pb.collection(CARDS_COLLECTION_NAME).getFirstListItem<PilgrimNfcCard>(
+        this.filter('card_id = {:cardId}', { cardId: nfcCardId }),
+        { sort: '-created' }
+      );
+      return card;
     } catch (error) {
       if (this.isNotFoundError(error)) {
         return null;
       }
-      console.error('Error fetching pilgrim by NFC ID:', error);
+      console.error('Error fetching card by card ID:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the card history of a pilgrim (most recent first)
+   */
+  async getPilgrimCards(pilgrimId: string): Promise<PilgrimNfcCard[]> {
+    try {
+      const cards = await this.pb.collection(CARDS_COLLECTION_NAME).getFullList<PilgrimNfcCard>({
+        filter: this.filter('pilgrim = {:pilgrimId}', { pilgrimId }),
+        sort: '-created',
+      });
+      return cards;
+    } catch (error) {
+      console.error('Error fetching pilgrim cards:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Bind a new active card to a pilgrim, revoking any card they still hold
+   */
+  async issueCard(
+    pilgrimId: string,
+    card: { cardId: string; serial: string; revokeReason?: CardRevokeReason }
+  ): Promise<Pilgrim> {
+    try {
+      const [pilgrim, history] = await Promise.all([
+        this.getPilgrimById(pilgrimId),
+        this.getPilgrimCards(pilgrimId),
+      ]);
+
+      const revokedAt = new Date().toISOString();
+      const revokeReason = card.revokeReason || 'replaced';
+      const writes: RecordWrite[] = history
+        .filter((entry) => entry.status === 'active')
+        .map((entry) => ({
+          collection: CARDS_COLLECTION_NAME,
+          id: entry.id,
+          body: { status: 'revoked', revoked_at: revokedAt, revoke_reason: revokeReason },
+        }));
+
+      // Cards bound before the history existed only live on the pilgrim record
+      const hasLegacyCard = !!pilgrim.nfc_card_id
+        && pilgrim.nfc_card_id !== card.cardId
+        && !history.some((entry) => entry.card_id === pilgrim.nfc_card_id);
+      if (hasLegacyCard) {
+        writes.push({
+          collection: CARDS_COLLECTION_NAME,
+          body: {
+            pilgrim: pilgrimId,
+            card_id: pilgrim.nfc_card_id,
+            serial: '',
+            status: 'revoked',
+            revoked_at: revokedAt,
+            revoke_reason: revokeReason,
+          },
+        });
+      }
+
+      writes.push(
+        {
+          collection: CARDS_COLLECTION_NAME,
+          body: {
+            pilgrim: pilgrimId,
+            card_id: card.cardId,
+            serial: card.serial,
+            status: 'active',
+            revoked_at: '',
+            revoke_reason: '',
+          },
+        },
+        { collection: COLLECTION_NAME, id: pilgrimId, body: { nfc_card_id: card.cardId } }
+      );
+
+      const records = await this.sendWrites(writes);
+      return records[records.length - 1] as Pilgrim;
+    } catch (error) {
+      console.error('Error issuing card:', error);
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Revoke a pilgrim's card (e.g. reported lost) without issuing a new one
+   */
+  async revokeCard(pilgrimId: string, cardId: string, reason: CardRevokeReason): Promise<Pilgrim> {
+    try {
+      const [pilgrim, history] = await Promise.all([
+        this.getPilgrimById(pilgrimId),
+        this.getPilgrimCards(pilgrimId),
+      ]);
+
+      const revokedAt = new Date().toISOString();
+      const activeEntries = history.filter(
+        (entry) => entry.card_id === cardId && entry.status === 'active'
+      );
+      const writes: RecordWrite[] = activeEntries.map((entry) => ({
+        collection: CARDS_COLLECTION_NAME,
+        id: entry.id,
+        body: { status: 'revoked', revoked_at: revokedAt, revoke_reason: reason },
+      }));
+
+      // Cards bound before the history existed get their first entry now
+      if (activeEntries.length === 0) {
+        writes.push({
+          collection: CARDS_COLLECTION_NAME,
+          body: {
+            pilgrim: pilgrimId,
+            card_id: cardId,
+            serial: '',
+            status: 'revoked',
+            revoked_at: revokedAt,
+            revoke_reason: reason,
+          },
+        });
+      }
+
+      if (pilgrim.nfc_card_id === cardId) {
+        writes.push({ collection: COLLECTION_NAME, id: pilgrimId, body: { nfc_card_id: '' } });
+      }
+
+      const records = await this.sendWrites(writes);
+      return pilgrim.nfc_card_id === cardId
+        ? records[records.length - 1] as Pilgrim
+        : pilgrim;
+    } catch (error) {
+      console.error('Error revoking card:', error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
+    }
+  }
+
   /**
    * Search pilgrims by name or passport number
    */
   async searchPilgrims(query: string): Promise<Pilgrim[]> {
     try {
-      const filter = `full_name ~ "${query}" || passport_number ~ "${query}"`;
+      const filter = this.filter('full_name ~ {:query} || passport_number ~ {:query}', {
+        query: containsPattern(query),
+      });
       const response = await this.pb.collection(COLLECTION_NAME).getFullList<Pilgrim>({
         filter,
         sort: 'full_name',
@@ -106,7 +411,7 @@ class PocketBaseService {
    */
   async getPilgrimsByStatus(status: 'onboard' | 'offboard' | 'all'): Promise<Pilgrim[]> {
     try {
-      const filter = status === 'all' ? '' : `status="${status}"`;
+      const filter = status === 'all' ? '' : this.filter('status = {:status}', { status });
       const response = await this.pb.collection(COLLECTION_NAME).getFullList<Pilgrim>({
         filter,
         sort: 'seat_number',
@@ -132,22 +437,144 @@ class PocketBaseService {
   }
 
   /**
-   * Update pilgrim status (main use case for NFC scanning)
+   * Check whether a seat is held by a pilgrim other than excludeId
    */
-  async updatePilgrimStatus(id: string, status: 'onboard' | 'offboard'): Promise<Pilgrim> {
+  async isSeatNumberTaken(seatNumber: number, excludeId = ''): Promise<boolean> {
     try {
-      const updateData: Partial<PilgrimUpdate> = {
-        status,
-      };
-      
-      const pilgrim = await this.pb.collection(COLLECTION_NAME).update<Pilgrim>(id, updateData);
-      return pilgrim;
+      const total = await this.count(
+        COLLECTION_NAME,
+        this.filter('seat_number = {:seatNumber} && id != {:excludeId}', { seatNumber, excludeId })
+      );
+      return total > 0;
     } catch (error) {
-      console.error('Error updating pilgrim status:', error);
+      console.error('Error checking seat number:', error);
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Check whether a card ID belongs to a pilgrim other than excludeId - on
+   * their record or anywhere in the card history, revoked cards included
+   */
+  async isCardIdTaken(cardId: string, excludeId = ''): Promise<boolean> {
+    try {
+      const [onRecord, inHistory] = await Promise.all([
+        this.count(
+          COLLECTION_NAME,
+          this.filter('nfc_card_id = {:cardId} && id != {:excludeId}', { cardId, excludeId })
+        ),
+        this.count(
+          CARDS_COLLECTION_NAME,
+          this.filter('card_id = {:cardId} && pilgrim != {:excludeId}', { cardId, excludeId })
+        ),
+      ]);
+      return onRecord + inHistory > 0;
+    } catch (error) {
+      console.error('Error checking card ID:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update pilgrim status, outside any leg. The scan event describing the
+   * change is written with it, so the audit trail cannot miss it.
+   */
+  async updatePilgrimStatus(
+    id: string,
+    status: 'onboard' | 'offboard',
+    event?: ScanEventCreate
+  ): Promise<Pilgrim> {
+    try {
+      const [pilgrim] = await this.sendWrites([
+        { collection: COLLECTION_NAME, id, body: { status } },
+        ...(event ? [{ collection: SCAN_EVENTS_COLLECTION_NAME, body: event }] : []),
+      ]);
+      return pilgrim as Pilgrim;
+    } catch (error) {
+      console.error('Error updating pilgrim status:', error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Set the status of many pilgrims. With a leg, each pilgrim's boarding on
+   * it is written in the same batch, as a scan would, and with an event each
+   * pilgrim's scan event goes along too. Each batch of up to
+   * BATCH_MAX_REQUESTS requests is a single transaction - when the server
+   * rejects one, or has batches turned off, the pilgrims are written one by
+   * one so every failure is reported.
+   */
+  async updatePilgrimsStatus(
+    ids: string[],
+    status: BoardingStatus,
+    legId = '',
+    busId = '',
+    event?: Omit<ScanEventCreate, 'pilgrim'>
+  ): Promise<BulkStatusResult> {
+    const result: BulkStatusResult = { updated: [], failed: [] };
+
+    // Boardings the pilgrims already have on the leg are updated, the rest created
+    const boardings = new Map(
+      (legId ? await this.getLegBoardings(legId) : []).map((boarding) => [boarding.pilgrim, boarding])
+    );
+    // A pilgrim's writes: their boarding, their record, then their event
+    const pilgrimIndex = legId ? 1 : 0;
+    const requestsPerPilgrim = pilgrimIndex + (event ? 2 : 1);
+    const pilgrimsPerBatch = Math.floor(BATCH_MAX_REQUESTS / requestsPerPilgrim);
+
+    const pilgrimWrites = (id: string): RecordWrite[] => [
+      ...(legId ? [this.boardingWrite(legId, id, status, busId, boardings.get(id) ?? null)] : []),
+      { collection: COLLECTION_NAME, id, body: { status } },
+      ...(event ? [{ collection: SCAN_EVENTS_COLLECTION_NAME, body: { ...event, pilgrim: id } }] : []),
+    ];
+
+    for (let start = 0; start < ids.length; start += pilgrimsPerBatch) {
+      const chunk = ids.slice(start, start + pilgrimsPerBatch);
+
+      if (!this.batchesDisabled) {
+        try {
+          const records = await this.sendBatch(chunk.flatMap(pilgrimWrites));
+          result.updated.push(...records
+            .filter((_, index) => index % requestsPerPilgrim === pilgrimIndex)
+            .map((record) => record as Pilgrim));
+          continue;
+        } catch (error) {
+          console.error('Error updating pilgrims status in batch:', error);
+          const serviceError = this.handleError(error);
+
+          // Nothing got through - retrying pilgrim by pilgrim would fail the same way
+          if (serviceError.retryable) {
+            result.failed.push(...chunk.map((pilgrimId) => ({ pilgrimId, error: serviceError.type })));
+            continue;
+          }
+        }
+      }
+
+      // A rejected record, or a server with batches turned off - the
+      // boarding and status of one pilgrim still go together where they can
+      const outcomes = await Promise.all(
+        chunk.map(async (id): Promise<Pilgrim | BulkStatusFailure> => {
+          try {
+            const records = await this.sendWrites(pilgrimWrites(id));
+            return records[pilgrimIndex] as Pilgrim;
+          } catch (recordError) {
+            return { pilgrimId: id, error: this.handleError(recordError, 'PILGRIM_NOT_FOUND').type };
+          }
+        })
+      );
+
+      outcomes.forEach((outcome) => {
+        if ('pilgrimId' in outcome) {
+          result.failed.push(outcome);
+        } else {
+          result.updated.push(outcome);
+        }
+      });
+    }
+
+    return result;
+  }
+
   /**
    * Update pilgrim information
    */
@@ -157,7 +584,7 @@ class PocketBaseService {
       return pilgrim;
     } catch (error) {
       console.error('Error updating pilgrim:', error);
-      throw this.handleError(error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
     }
   }
 
@@ -170,47 +597,353 @@ class PocketBaseService {
       return true;
     } catch (error) {
       console.error('Error deleting pilgrim:', error);
-      throw this.handleError(error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
     }
   }
 
   /**
    * Get pilgrims statistics
    */
-  async getPilgrimsStats(): Promise<{
-    total: number;
-    onboard: number;
-    offboard: number;
-  }> {
+  async getPilgrimsStats(): Promise<PilgrimStats> {
+    try {
+      const [total, onboard, offboard, breakdowns] = await Promise.all([
+        this.count(COLLECTION_NAME),
+        this.count(COLLECTION_NAME, this.filter('status = {:status}', { status: 'onboard' })),
+        this.count(COLLECTION_NAME, this.filter('status = {:status}', { status: 'offboard' })),
+        this.getStatsBreakdowns(),
+      ]);
+
+      return { total, onboard, offboard, breakdowns };
+    } catch (error) {
+      console.error('Error fetching pilgrim stats:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Roster breakdowns from the stats view. Servers without the view still
+   * get their counts - the breakdowns are just left empty.
+   */
+  private async getStatsBreakdowns(): Promise<PilgrimStats['breakdowns']> {
+    const breakdowns: PilgrimStats['breakdowns'] = { bus: [], nationality: [], sex: [] };
+
+    try {
+      const rows = await this.pb
+        .collection(STATS_VIEW_NAME)
+        .getFullList<StatsBreakdownEntry & { dimension: StatsDimension }>({
+          sort: '-total',
+          requestKey: null,
+        });
+
+      for (const { dimension, value, total, onboard } of rows) {
+        breakdowns[dimension]?.push({ value: value || '', total, onboard });
+      }
+    } catch (error) {
+      if (!this.isNotFoundError(error)) {
+        throw error;
+      }
+      console.warn(`No ${STATS_VIEW_NAME} view on the server - showing counts without breakdowns.`);
+    }
+
+    return breakdowns;
+  }
+
+  /**
+   * Get all buses of the convoy in number order
+   */
+  async getBuses(): Promise<Bus[]> {
+    try {
+      const buses = await this.pb.collection(BUSES_COLLECTION_NAME).getFullList<Bus>({
+        sort: 'number',
+      });
+      return buses;
+    } catch (error) {
+      console.error('Error fetching buses:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a single bus by ID
+   */
+  async getBusById(id: string): Promise<Bus> {
+    try {
+      const bus = await this.pb.collection(BUSES_COLLECTION_NAME).getOne<Bus>(id);
+      return bus;
+    } catch (error) {
+      console.error('Error fetching bus by ID:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Assign a pilgrim to a bus - an empty bus ID leaves them unassigned
+   */
+  async assignPilgrimToBus(pilgrimId: string, busId: string): Promise<Pilgrim> {
+    try {
+      const pilgrim = await this.pb.collection(COLLECTION_NAME).update<Pilgrim>(pilgrimId, { bus: busId });
+      return pilgrim;
+    } catch (error) {
+      console.error('Error assigning pilgrim to bus:', error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Get all trips, most recent first
+   */
+  async getTrips(): Promise<Trip[]> {
+    try {
+      const trips = await this.pb.collection(TRIPS_COLLECTION_NAME).getFullList<Trip>({
+        sort: '-start_date',
+      });
+      return trips;
+    } catch (error) {
+      console.error('Error fetching trips:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the legs of a trip in itinerary order
+   */
+  async getTripLegs(tripId: string): Promise<TripLeg[]> {
+    try {
+      const legs = await this.pb.collection(LEGS_COLLECTION_NAME).getFullList<TripLeg>({
+        filter: this.filter('trip = {:tripId}', { tripId }),
+        sort: 'sequence',
+      });
+      return legs;
+    } catch (error) {
+      console.error('Error fetching trip legs:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a single leg by ID
+   */
+  async getLegById(id: string): Promise<TripLeg> {
+    try {
+      const leg = await this.pb.collection(LEGS_COLLECTION_NAME).getOne<TripLeg>(id);
+      return leg;
+    } catch (error) {
+      console.error('Error fetching leg by ID:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every boarding record of a leg
+   */
+  async getLegBoardings(legId: string): Promise<LegBoarding[]> {
+    try {
+      const boardings = await this.pb.collection(BOARDINGS_COLLECTION_NAME).getFullList<LegBoarding>({
+        filter: this.filter('leg = {:legId}', { legId }),
+      });
+      return boardings;
+    } catch (error) {
+      console.error('Error fetching leg boardings:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a pilgrim's boarding record on a leg - null if they have not boarded it
+   */
+  async getLegBoarding(legId: string, pilgrimId: string): Promise<LegBoarding | null> {
+    try {
+      const boarding = await this.pb.collection(BOARDINGS_COLLECTION_NAME).getFirstListItem<LegBoarding>(
+        this.filter('leg = {:legId} && pilgrim = {:pilgrimId}', { legId, pilgrimId })
+      );
+      return boarding;
+    } catch (error) {
+      if (this.isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Error fetching leg boarding:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Record a pilgrim boarding or leaving the bus on a leg. The pilgrim's own
+   * status mirrors their latest leg so the roster shows where they are now,
+   * and the scan event describing the change is written along with both.
+   */
+  async updateLegBoardingStatus(
+    legId: string,
+    pilgrimId: string,
+    status: BoardingStatus,
+    busId = '',
+    event?: ScanEventCreate
+  ): Promise<{ boarding: LegBoarding; pilgrim: Pilgrim }> {
+    try {
+      const existing = await this.getLegBoarding(legId, pilgrimId);
+      const [boarding, pilgrim] = await this.sendWrites([
+        this.boardingWrite(legId, pilgrimId, status, busId, existing),
+        { collection: COLLECTION_NAME, id: pilgrimId, body: { status } },
+        ...(event ? [{ collection: SCAN_EVENTS_COLLECTION_NAME, body: event }] : []),
+      ]);
+
+      return { boarding: boarding as LegBoarding, pilgrim: pilgrim as Pilgrim };
+    } catch (error) {
+      console.error('Error updating leg boarding:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * The write of a pilgrim's boarding on a leg - their existing boarding is
+   * updated, otherwise one is created
+   */
+  private boardingWrite(
+    legId: string,
+    pilgrimId: string,
+    status: BoardingStatus,
+    busId: string,
+    existing: LegBoarding | null
+  ): RecordWrite {
+    const now = new Date().toISOString();
+
+    if (existing) {
+      return {
+        collection: BOARDINGS_COLLECTION_NAME,
+        id: existing.id,
+        body: status === 'onboard'
+          ? { status, bus: busId, boarded_at: now, offboarded_at: '' }
+          : { status, offboarded_at: now },
+      };
+    }
+
+    return {
+      collection: BOARDINGS_COLLECTION_NAME,
+      body: {
+        leg: legId,
+        pilgrim: pilgrimId,
+        bus: busId,
+        status,
+        boarded_at: status === 'onboard' ? now : '',
+        offboarded_at: status === 'offboard' ? now : '',
+      },
+    };
+  }
+
+  /**
+   * Get boarding statistics for a leg, optionally for the pilgrims of one bus
+   */
+  async getLegStats(legId: string, busId?: string): Promise<LegStats> {
     try {
-      const [total, onboard, offboard] = await Promise.all([
-        this.pb.collection(COLLECTION_NAME).getFullList({ fields: 'id' }),
-        this.pb.collection(COLLECTION_NAME).getFullList({ 
-          filter: 'status="onboard"',
-          fields: 'id'
-        }),
-        this.pb.collection(COLLECTION_NAME).getFullList({ 
-          filter: 'status="offboard"',
-          fields: 'id'
-        }),
+      const [total, onboard] = await Promise.all([
+        this.count(COLLECTION_NAME, busId ? this.filter('bus = {:busId}', { busId }) : ''),
+        this.count(
+          BOARDINGS_COLLECTION_NAME,
+          busId
+            ? this.filter('leg = {:legId} && status = "onboard" && pilgrim.bus = {:busId}', { legId, busId })
+            : this.filter('leg = {:legId} && status = "onboard"', { legId })
+        ),
       ]);
 
       return {
-        total: total.length,
-        onboard: onboard.length,
-        offboard: offboard.length,
+        total,
+        onboard,
+        offboard: total - onboard,
       };
     } catch (error) {
-      console.error('Error fetching pilgrim stats:', error);
+      console.error('Error fetching leg stats:', error);
       throw this.handleError(error);
     }
   }
 
   /**
-   * Subscribe to real-time updates for pilgrims collection
+   * Record a scan event in the audit trail
    */
-  subscribeToPilgrims(callback: (data: { action: string; record: Pilgrim }) => void) {
-    return this.pb.collection(COLLECTION_NAME).subscribe('*', callback);
+  async createScanEvent(event: ScanEventCreate): Promise<ScanEvent> {
+    try {
+      // Every event must land - auto-cancellation would drop all but the last
+      // of several logged at once
+      const record = await this.pb
+        .collection(SCAN_EVENTS_COLLECTION_NAME)
+        .create<ScanEvent>(event, { requestKey: null });
+      return record;
+    } catch (error) {
+      console.error('Error creating scan event:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the scan events of a pilgrim, most recent first
+   */
+  async getPilgrimScanEvents(pilgrimId: string): Promise<ScanEvent[]> {
+    try {
+      const events = await this.pb.collection(SCAN_EVENTS_COLLECTION_NAME).getFullList<ScanEvent>({
+        filter: this.filter('pilgrim = {:pilgrimId}', { pilgrimId }),
+        sort: '-timestamp',
+      });
+      return events;
+    } catch (error) {
+      console.error('Error fetching pilgrim scan events:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the scan events of a scanning session, most recent first
+   */
+  async getSessionScanEvents(sessionId: string): Promise<ScanEvent[]> {
+    try {
+      const events = await this.pb.collection(SCAN_EVENTS_COLLECTION_NAME).getFullList<ScanEvent>({
+        filter: this.filter('session_id = {:sessionId}', { sessionId }),
+        sort: '-timestamp',
+      });
+      return events;
+    } catch (error) {
+      console.error('Error fetching session scan events:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Whether the runtime can hold a realtime connection - PocketBase streams
+   * over EventSource, which the constructor installs where it is missing
+   */
+  supportsRealtime(): boolean {
+    return 'EventSource' in globalThis;
+  }
+
+  /**
+   * Subscribe to real-time updates for pilgrims collection. The SDK reconnects
+   * on its own; onReconnect runs each time it does, since events sent while
+   * the connection was down are lost. Resolves to a function that ends the
+   * subscription.
+   */
+  async subscribeToPilgrims(
+    callback: (data: { action: string; record: Pilgrim }) => void,
+    onReconnect?: () => void
+  ): Promise<() => Promise<void>> {
+    let hasConnected = false;
+    let stopConnectEvents: (() => Promise<void>) | null = null;
+
+    try {
+      stopConnectEvents = await this.pb.realtime.subscribe('PB_CONNECT', () => {
+        if (hasConnected) {
+          onReconnect?.();
+        }
+        hasConnected = true;
+      });
+      const stopPilgrimEvents = await this.pb.collection(COLLECTION_NAME).subscribe<Pilgrim>('*', callback);
+
+      const stopConnect = stopConnectEvents;
+      return async () => {
+        await stopPilgrimEvents();
+        await stopConnect();
+      };
+    } catch (error) {
+      await stopConnectEvents?.();
+      console.error('Error subscribing to pilgrims:', error);
+      throw this.handleError(error);
+    }
   }
 
   /**
@@ -221,36 +954,108 @@ class PocketBaseService {
   }
 
   /**
-   * Check if PocketBase is connected
+   * Check if PocketBase is connected, or whether another server answers
+   * before switching to it
    */
-  async checkConnection(): Promise<boolean> {
+  async checkConnection(url?: string): Promise<boolean> {
+    const client = url ? new PocketBase(url) : this.pb;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), API_TIMEOUT);
+
     try {
-      await this.pb.health.check();
+      await client.health.check({ signal: controller.signal, requestKey: null });
       return true;
     } catch (error) {
       console.error('PocketBase connection check failed:', error);
       return false;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
   /**
-   * Handle and normalize errors from PocketBase
+   * Apply writes together in one batch. PocketBase servers have the batch API
+   * turned off unless it is enabled in the settings - there the writes are
+   * sent one at a time in order instead, so a failure part-way leaves the
+   * earlier ones applied. Resolves to the written records in write order.
    */
-  private handleError(error: any): PocketBaseError {
-    if (error?.status) {
-      return {
-        code: error.status,
-        message: error.message || 'An error occurred',
-        data: error.data,
-      };
+  private async sendWrites(writes: RecordWrite[]): Promise<any[]> {
+    if (writes.length > 1 && !this.batchesDisabled) {
+      try {
+        return await this.sendBatch(writes);
+      } catch (error) {
+        if (!this.batchesDisabled) {
+          throw error;
+        }
+      }
     }
 
-    // Network or other errors
-    return {
-      code: 0,
-      message: error?.message || 'Network error occurred',
-      data: error,
-    };
+    const records = [];
+    for (const { collection, id, body } of writes) {
+      const service = this.pb.collection(collection);
+      records.push(id
+        ? await service.update(id, body, { requestKey: null })
+        : await service.create(body, { requestKey: null }));
+    }
+    return records;
+  }
+
+  /**
+   * Send writes as a single batch transaction - throws when the server has
+   * batches turned off, and remembers that for sendWrites
+   */
+  private async sendBatch(writes: RecordWrite[]): Promise<any[]> {
+    const batch = this.pb.createBatch();
+    writes.forEach(({ collection, id, body }) => {
+      if (id) {
+        batch.collection(collection).update(id, body);
+      } else {
+        batch.collection(collection).create(body);
+      }
+    });
+
+    try {
+      const results = await batch.send({ requestKey: null });
+      return results.map((result) => result.body);
+    } catch (error) {
+      // The batch endpoint answers 403 when turned off - a rejected request
+      // inside an allowed batch fails the whole batch with a 400
+      const { status, url } = (error ?? {}) as { status?: number; url?: string };
+      if (status === 403 && url?.includes('/api/batch')) {
+        console.warn('Batch API is turned off on the server - sending writes one at a time.');
+        this.batchesDisabled = true;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Count matching records from the list total - a single ID is transferred.
+   * Counts run side by side, so they opt out of the SDK's auto-cancellation.
+   */
+  private async count(collection: string, filter = ''): Promise<number> {
+    const { totalItems } = await this.pb.collection(collection).getList(1, 1, {
+      filter,
+      fields: 'id',
+      requestKey: null,
+    });
+    return totalItems;
+  }
+
+  /**
+   * Bind values into a filter expression - values it cannot express safely
+   * are refused with VALIDATION_ERROR
+   */
+  private filter(expression: string, params: FilterParams): string {
+    return bindFilter(this.pb, expression, params);
+  }
+
+  /**
+   * Classify errors from PocketBase into an AppError - notFound names what a
+   * 404 means for the calling method
+   */
+  private handleError(error: unknown, notFound?: AppError): ServiceError {
+    return toServiceError(error, notFound);
   }
 
   /**
@@ -288,7 +1093,7 @@ class PocketBaseService {
       return this.getPhotoUrl(updatedPilgrim);
     } catch (error) {
       console.error('Error uploading pilgrim photo:', error);
-      throw this.handleError(error);
+      throw this.handleError(error, 'PILGRIM_NOT_FOUND');
     }
   }
 }
@@ -1,9 +1,11 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
-import { devtools, persist } from 'zustand/middleware';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { Pilgrim, AppState, SessionStats, SearchFilters } from '../types';
+import { Pilgrim, AppState, ErrorState, SessionStats, SearchFilters, ScanSettings, ServerProfile, DEFAULT_SERVER_PROFILE, DUPLICATE_SCAN_WINDOW, NFC_SCAN_TIMEOUT } from '../types';
 import { pocketbaseService } from '../services/pocketbase';
 import { nfcService } from '../services/nfc';
+import { ServiceError, toServiceError } from '../services/errors';
 
 interface AppStore extends AppState {
   // Pilgrim actions
@@ -25,9 +27,26 @@ interface AppStore extends AppState {
   endSession: () => void;
   resetSession: () => void;
   updateSessionStats: (stats: Partial<SessionStats>) => void;
+
+  // Settings actions
+  updateSettings: (settings: Partial<ScanSettings>) => void;
+
+  // Trip actions
+  setActiveLeg: (legId: string | null) => void;
+  setActiveBus: (busId: string | null) => void;
+
+  // Auth actions
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => void;
+  refreshAuth: () => Promise<void>;
+
+  // Server actions
+  switchServer: (profileId: string) => Promise<void>;
+  addServerProfile: (name: string, url: string) => void;
+  removeServerProfile: (profileId: string) => void;
   
   // Error handling
-  setError: (error: string | null) => void;
+  setError: (error: ErrorState | null) => void;
   clearError: () => void;
   
   // Loading states
@@ -35,9 +54,16 @@ interface AppStore extends AppState {
   
   // Utility actions
   reset: () => void;
-  mapErrorMessage: (errorCode: string) => string;
 }
 
+// Unique enough to tell devices and sessions apart in the audit trail
+const createLocalId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`.toUpperCase();
+
+// The built-in profile first, then the ones added on the device
+const findServerProfile = (profiles: ServerProfile[], profileId: string) =>
+  [DEFAULT_SERVER_PROFILE, ...profiles].find((profile) => profile.id === profileId);
+
 const initialState: AppState = {
   pilgrims: [],
   isLoading: false,
@@ -53,9 +79,20 @@ const initialState: AppState = {
     totalScanned: 0,
     successfulScans: 0,
     failedScans: 0,
+    duplicateScans: 0,
     onboardCount: 0,
     offboardCount: 0,
   },
+  settings: {
+    duplicateWindowMs: DUPLICATE_SCAN_WINDOW,
+    scanTimeoutMs: NFC_SCAN_TIMEOUT,
+  },
+  activeLegId: null,
+  activeBusId: null,
+  deviceId: createLocalId(),
+  auth: null,
+  serverProfiles: [],
+  activeServerId: DEFAULT_SERVER_PROFILE.id,
 };
 
 export const useAppStore = create<AppStore>()(
@@ -80,7 +117,7 @@ export const useAppStore = create<AppStore>()(
           } catch (error: any) {
             console.error('Error fetching pilgrims:', error);
             set((state) => {
-              state.error = error.message || 'Failed to fetch pilgrims';
+              state.error = toServiceError(error).toErrorState();
               state.isLoading = false;
             });
           }
@@ -106,7 +143,7 @@ export const useAppStore = create<AppStore>()(
           } catch (error: any) {
             console.error('Error searching pilgrims:', error);
             set((state) => {
-              state.error = error.message || 'Failed to search pilgrims';
+              state.error = toServiceError(error).toErrorState();
               state.isLoading = false;
             });
           }
@@ -156,7 +193,7 @@ export const useAppStore = create<AppStore>()(
           } catch (error: any) {
             console.error('Error filtering pilgrims:', error);
             set((state) => {
-              state.error = error.message || 'Failed to filter pilgrims';
+              state.error = toServiceError(error).toErrorState();
               state.isLoading = false;
             });
           }
@@ -192,7 +229,7 @@ export const useAppStore = create<AppStore>()(
           } catch (error: any) {
             console.error('Error updating pilgrim status:', error);
             set((state) => {
-              state.error = error.message || 'Failed to update pilgrim status';
+              state.error = toServiceError(error).toErrorState();
               state.sessionStats.failedScans++;
               state.sessionStats.totalScanned++;
             });
@@ -218,7 +255,7 @@ export const useAppStore = create<AppStore>()(
           } catch (error: any) {
             console.error('Error initializing NFC:', error);
             set((state) => {
-              state.error = 'Failed to initialize NFC';
+              state.error = toServiceError(error).toErrorState();
               state.nfc.isEnabled = false;
             });
             return false;
@@ -243,13 +280,13 @@ export const useAppStore = create<AppStore>()(
             if (scanResult.success && scanResult.cardId) {
               await get().processScan(scanResult.cardId);
             } else {
-              throw new Error(scanResult.error || 'Scan failed');
+              throw toServiceError(scanResult.error);
             }
           } catch (error: any) {
             console.error('Error during scanning:', error);
             set((state) => {
               state.nfc.isScanning = false;
-              state.error = error.message || 'Scanning failed';
+              state.error = toServiceError(error).toErrorState();
               state.sessionStats.failedScans++;
               state.sessionStats.totalScanned++;
             });
@@ -270,7 +307,7 @@ export const useAppStore = create<AppStore>()(
             const pilgrim = await pocketbaseService.getPilgrimByNfcId(cardId);
             
             if (!pilgrim) {
-              throw new Error('PILGRIM_NOT_FOUND');
+              throw new ServiceError('PILGRIM_NOT_FOUND');
             }
 
             const { scanningMode } = get();
@@ -278,10 +315,10 @@ export const useAppStore = create<AppStore>()(
 
             // Validate status change
             if (newStatus === 'onboard' && pilgrim.status === 'onboard') {
-              throw new Error('ALREADY_ONBOARD');
+              throw new ServiceError('ALREADY_ONBOARD');
             }
             if (newStatus === 'offboard' && pilgrim.status === 'offboard') {
-              throw new Error('ALREADY_OFFBOARD');
+              throw new ServiceError('ALREADY_OFFBOARD');
             }
 
             // Update pilgrim status
@@ -295,9 +332,8 @@ export const useAppStore = create<AppStore>()(
           } catch (error: any) {
             console.error('Error processing scan:', error);
             
-            const errorMessage = get().mapErrorMessage(error.message);
             set((state) => {
-              state.error = errorMessage;
+              state.error = toServiceError(error).toErrorState();
               state.sessionStats.failedScans++;
               state.sessionStats.totalScanned++;
             });
@@ -313,8 +349,10 @@ export const useAppStore = create<AppStore>()(
               totalScanned: 0,
               successfulScans: 0,
               failedScans: 0,
+              duplicateScans: 0,
               onboardCount: 0,
               offboardCount: 0,
+              sessionId: createLocalId(),
               startTime: Date.now(),
             };
           });
@@ -334,6 +372,7 @@ export const useAppStore = create<AppStore>()(
               totalScanned: 0,
               successfulScans: 0,
               failedScans: 0,
+              duplicateScans: 0,
               onboardCount: 0,
               offboardCount: 0,
             };
@@ -349,8 +388,109 @@ export const useAppStore = create<AppStore>()(
           });
         },
 
+        // Settings actions
+        updateSettings: (settings: Partial<ScanSettings>) => {
+          set((state) => {
+            Object.assign(state.settings, settings);
+          });
+
+          if (settings.scanTimeoutMs !== undefined) {
+            nfcService.setScanTimeout(settings.scanTimeoutMs);
+          }
+        },
+
+        // Trip actions
+        setActiveLeg: (legId: string | null) => {
+          set((state) => {
+            state.activeLegId = legId;
+          });
+        },
+
+        setActiveBus: (busId: string | null) => {
+          set((state) => {
+            state.activeBusId = busId;
+          });
+        },
+
+        // Auth actions
+        login: async (email: string, password: string) => {
+          const session = await pocketbaseService.login(email, password);
+          set((state) => {
+            state.auth = session;
+          });
+        },
+
+        logout: () => {
+          pocketbaseService.logout();
+          set((state) => {
+            state.auth = null;
+          });
+        },
+
+        // Renew the saved session on app start. A rejected token signs the
+        // operator out, a network error keeps them signed in to work offline.
+        refreshAuth: async () => {
+          if (!get().auth) return;
+
+          try {
+            const session = await pocketbaseService.refreshAuth();
+            set((state) => {
+              state.auth = session;
+            });
+          } catch (error) {
+            if (toServiceError(error).type === 'SESSION_EXPIRED') {
+              get().logout();
+            }
+          }
+        },
+
+        // Server actions
+        switchServer: async (profileId: string) => {
+          const profile = findServerProfile(get().serverProfiles, profileId);
+          if (!profile || profile.id === get().activeServerId) return;
+
+          // Never leave the app pointing at a server that does not answer
+          const reachable = await pocketbaseService.checkConnection(profile.url);
+          if (!reachable) {
+            throw new ServiceError('SERVER_UNREACHABLE');
+          }
+
+          pocketbaseService.setBaseUrl(profile.url);
+          set((state) => {
+            state.activeServerId = profile.id;
+            // The session, leg and bus all belong to the previous server
+            state.auth = null;
+            state.activeLegId = null;
+            state.activeBusId = null;
+          });
+        },
+
+        addServerProfile: (name: string, url: string) => {
+          const normalizedUrl = url.trim().replace(/\/+$/, '');
+          if (!/^https?:\/\/[^\s/]+/i.test(normalizedUrl)) {
+            throw new ServiceError('INVALID_SERVER_URL');
+          }
+
+          set((state) => {
+            state.serverProfiles.push({
+              id: createLocalId(),
+              name: name.trim() || normalizedUrl,
+              url: normalizedUrl,
+            });
+          });
+        },
+
+        removeServerProfile: (profileId: string) => {
+          // The active server stays until the app is switched away from it
+          if (profileId === get().activeServerId) return;
+
+          set((state) => {
+            state.serverProfiles = state.serverProfiles.filter((profile) => profile.id !== profileId);
+          });
+        },
+
         // Error handling
-        setError: (error: string | null) => {
+        setError: (error: ErrorState | null) => {
           set((state) => {
             state.error = error;
           });
@@ -372,33 +512,65 @@ export const useAppStore = create<AppStore>()(
         // Utility actions
         reset: () => {
           set((state) => {
-            Object.assign(state, initialState);
+            // The device keeps its identity, server and signed-in operator
+            Object.assign(state, {
+              ...initialState,
+              deviceId: state.deviceId,
+              auth: state.auth,
+              serverProfiles: state.serverProfiles,
+              activeServerId: state.activeServerId,
+            });
           });
         },
 
-        // Helper method to map error messages
-        mapErrorMessage: (errorCode: string): string => {
-          const errorMap: Record<string, string> = {
-            'PILGRIM_NOT_FOUND': 'لم يتم العثور على الحاج',
-            'ALREADY_ONBOARD': 'الحاج على متن الحافلة بالفعل',
-            'ALREADY_OFFBOARD': 'الحاج خارج الحافلة بالفعل',
-            'NFC_NOT_SUPPORTED': 'الجهاز لا يدعم NFC',
-            'NFC_DISABLED': 'NFC غير مفعل',
-            'SCAN_TIMEOUT': 'انتهت مهلة المسح',
-            'INVALID_CARD': 'رقاقة غير صالحة',
-            'NETWORK_ERROR': 'خطأ في الاتصال بالشبكة',
-            'SERVER_ERROR': 'خطأ في الخادم',
-          };
-
-          return errorMap[errorCode] || 'خطأ غير معروف';
-        },
       })),
       {
         name: 'pilgrim-app-store',
+        version: 3,
+        // React Native has no localStorage - without this nothing survives a restart
+        storage: createJSONStorage(() => AsyncStorage),
         partialize: (state) => ({
           sessionStats: state.sessionStats,
+          settings: state.settings,
+          activeLegId: state.activeLegId,
+          activeBusId: state.activeBusId,
+          deviceId: state.deviceId,
+          auth: state.auth,
+          serverProfiles: state.serverProfiles,
+          activeServerId: state.activeServerId,
           // Don't persist pilgrims data to ensure fresh data on app start
         }),
+        migrate: (persistedState: any, version) => {
+          // v0 had no settings and no duplicate counter
+          if (version < 1) {
+            return {
+              ...persistedState,
+              sessionStats: { ...initialState.sessionStats, ...persistedState?.sessionStats },
+              settings: initialState.settings,
+            };
+          }
+          // v1 settings had no scan timeout - missing settings take their
+          // defaults. v2 only lacked the device ID, which like the other
+          // top-level fields comes from the initial state on merge
+          if (version < 3) {
+            return {
+              ...persistedState,
+              settings: { ...initialState.settings, ...persistedState?.settings },
+            };
+          }
+          return persistedState;
+        },
+        // The services keep their own copies of the timeout, server and token
+        onRehydrateStorage: () => (state) => {
+          if (state) {
+            nfcService.setScanTimeout(state.settings.scanTimeoutMs);
+            const server = findServerProfile(state.serverProfiles, state.activeServerId);
+            pocketbaseService.setBaseUrl((server || DEFAULT_SERVER_PROFILE).url);
+            if (state.auth) {
+              pocketbaseService.restoreAuth(state.auth);
+            }
+          }
+        },
       }
     ),
     {
@@ -12,6 +12,12 @@ export interface Pilgrim {
   date_of_birth: string; // ISO date string
   sex: 'male' | 'female';
   nationality: string;
+  bus?: string; // Relation to buses, empty while unassigned
+  // Emergency details, also written to the card for offline reading
+  group_leader_phone?: string;
+  bus_number?: string;
+  hotel?: string;
+  medical_notes?: string;
   created: string; // ISO date string
   updated: string; // ISO date string
 }
@@ -31,45 +37,337 @@ export interface PilgrimCreate {
 
 export interface PilgrimUpdate {
   id: string;
+  nfc_card_id?: string;
   status?: 'onboard' | 'offboard';
   seat_number?: number;
   phone?: string;
   full_name?: string;
   passport_number?: string;
+  date_of_birth?: string;
+  sex?: 'male' | 'female';
   nationality?: string;
+  bus?: string;
+  group_leader_phone?: string;
+  bus_number?: string;
+  hotel?: string;
+  medical_notes?: string;
 }
 
+// Card history - a pilgrim holds at most one active card and any number of revoked ones
+export type CardRevokeReason = 'lost' | 'damaged' | 'stolen' | 'replaced';
+
+export interface PilgrimNfcCard {
+  id: string;
+  pilgrim: string; // Relation to pilgrims
+  card_id: string;
+  serial: string;
+  status: 'active' | 'revoked';
+  revoked_at: string; // ISO date string, empty while active
+  revoke_reason: CardRevokeReason | '';
+  created: string; // ISO date string
+  updated: string; // ISO date string
+}
+
+// Convoy vehicles - each pilgrim is assigned to one bus
+export interface Bus {
+  id: string;
+  number: string; // Number painted on the bus, e.g. "3"
+  plate_number: string;
+  driver_name: string;
+  driver_phone: string;
+  capacity: number;
+  created: string; // ISO date string
+  updated: string; // ISO date string
+}
+
+// Trips are split into itinerary legs (e.g. Makkah to Mina) - a pilgrim
+// boards and leaves the bus once per leg
+export interface Trip {
+  id: string;
+  name: string;
+  start_date: string; // ISO date string
+  end_date: string; // ISO date string
+  created: string; // ISO date string
+  updated: string; // ISO date string
+}
+
+export type TripLegStatus = 'scheduled' | 'active' | 'completed';
+
+export interface TripLeg {
+  id: string;
+  trip: string; // Relation to trips
+  name: string;
+  origin: string;
+  destination: string;
+  sequence: number; // Order of the leg within its trip
+  departure_time: string; // ISO date string
+  status: TripLegStatus;
+  created: string; // ISO date string
+  updated: string; // ISO date string
+}
+
+export type BoardingStatus = 'onboard' | 'offboard';
+
+// Where a pilgrim stands on one leg - no record means they have not boarded yet
+export interface LegBoarding {
+  id: string;
+  leg: string; // Relation to trip_legs
+  pilgrim: string; // Relation to pilgrims
+  bus: string; // Relation to buses - the bus that scanned the pilgrim
+  status: BoardingStatus;
+  boarded_at: string; // ISO date string
+  offboarded_at: string; // ISO date string, empty while onboard
+  created: string; // ISO date string
+  updated: string; // ISO date string
+}
+
+// Roster counts - the breakdowns come from the pilgrim_stats view collection
+export type StatsDimension = 'bus' | 'nationality' | 'sex';
+
+export interface StatsBreakdownEntry {
+  value: string; // Bus ID, nationality or sex - empty when not set
+  total: number;
+  onboard: number;
+}
+
+export interface PilgrimStats {
+  total: number;
+  onboard: number;
+  offboard: number;
+  breakdowns: Record<StatsDimension, StatsBreakdownEntry[]>;
+}
+
+export interface LegStats {
+  total: number;
+  onboard: number;
+  offboard: number; // Not yet boarded or already off the bus
+}
+
+// Audit trail - events are only ever created, never updated or deleted
+export type ScanEventType = 'status_change' | 'failed_scan' | 'manual_override';
+
+export interface ScanEvent {
+  id: string;
+  type: ScanEventType;
+  pilgrim: string; // Relation to pilgrims, empty when the card matched nobody
+  card_id: string;
+  result: string; // 'SUCCESS' or an AppError code - for overrides, the check that was overridden
+  status: BoardingStatus | ''; // Status set by the event, empty for failed scans
+  leg: string; // Relation to trip_legs
+  bus: string; // Relation to buses
+  operator: string;
+  device_id: string;
+  session_id: string;
+  timestamp: string; // ISO date string, when it happened on the device
+  created: string; // ISO date string
+}
+
+export type ScanEventCreate = Omit<ScanEvent, 'id' | 'created'>;
+
+// Outcome of a status change applied to many pilgrims at once
+export interface BulkStatusFailure {
+  pilgrimId: string;
+  error: AppError;
+}
+
+export interface BulkStatusResult {
+  updated: Pilgrim[];
+  failed: BulkStatusFailure[];
+}
+
+// Operator accounts
+export type OperatorRole = 'scanner' | 'group_leader' | 'supervisor' | 'admin';
+
+export interface Operator {
+  id: string;
+  email: string;
+  name: string;
+  role: OperatorRole;
+  collectionId: string; // The auth store needs these to restore the session
+  collectionName: string;
+  created: string;
+  updated: string;
+}
+
+export interface AuthSession {
+  token: string;
+  operator: Operator;
+}
+
+// Backend server the app talks to
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export type Permission =
+  | 'scan' // Board and offboard pilgrims by card
+  | 'override_status' // Set a status by hand or board despite a failed check
+  | 'assign_bus'
+  | 'manage_cards' // Enroll, reissue and revoke cards
+  | 'edit_pilgrim'
+  | 'bulk_update'
+  | 'delete_pilgrim';
+
 // NFC related types
 export interface NFCScanResult {
   success: boolean;
   cardId?: string;
+  pilgrimId?: string; // From the verified card payload
+  cardSerial?: string; // From the verified card payload
+  records?: NdefRecord[]; // Decoded NDEF message stored on the card
+  error?: string;
+  timestamp: number;
+}
+
+export type NFCAdapterState = 'unknown' | 'enabled' | 'disabled' | 'unsupported';
+
+// Events published by NFCService
+export type NFCServiceEvent =
+  | { type: 'adapterStateChanged'; state: NFCAdapterState }
+  | { type: 'scanStarted'; continuous: boolean }
+  | { type: 'scanResult'; continuous: boolean; result: NFCScanResult }
+  | { type: 'scanStopped'; continuous: boolean }
+  | { type: 'error'; error: AppError };
+
+// Compact record stored on the card so anyone with the app can help a
+// pilgrim without a connection to the server
+export interface EmergencyInfo {
+  name: string;
+  groupLeaderPhone?: string;
+  bus?: string;
+  hotel?: string;
+  medicalNotes?: string;
+}
+
+export interface EmergencyReadResult {
+  success: boolean;
+  cardId?: string;
+  info?: EmergencyInfo;
+  error?: string;
+  timestamp: number;
+}
+
+export interface CardEnrollmentResult {
+  success: boolean;
+  cardId?: string;
+  cardSerial?: string;
+  locked?: boolean;
   error?: string;
   timestamp: number;
 }
 
+export type CardTechnology = 'NfcA' | 'NfcB' | 'NfcF' | 'NfcV' | 'unknown';
+
+export interface CardIdentity {
+  cardId: string; // Normalised UID as upper-case hex
+  technology: CardTechnology;
+}
+
+export interface SignedCardPayload {
+  pilgrimId: string;
+  serial: string;
+  signature: string; // Hex HMAC-SHA256 under the agency key (bundled with the app, not a secret)
+}
+
+export interface NFCTagRecord {
+  tnf: number;
+  type: number[] | string;
+  id?: number[];
+  payload: number[];
+}
+
+export interface NFCTag {
+  id?: string | number[];
+  techTypes?: string[];
+  type?: string;
+  maxSize?: number;
+  isWritable?: boolean;
+  ndefMessage?: NFCTagRecord[];
+  [key: string]: any;
+}
+
+// Decoded NDEF records - raw keeps the record as read from the tag
+export type NdefRecord =
+  | { kind: 'text'; text: string; language: string; raw: NFCTagRecord }
+  | { kind: 'uri'; uri: string; raw: NFCTagRecord }
+  | { kind: 'mime'; mimeType: string; data: number[]; json?: unknown; text?: string; raw: NFCTagRecord }
+  | { kind: 'external'; type: string; payload: number[]; raw: NFCTagRecord }
+  | { kind: 'empty'; raw: NFCTagRecord }
+  | { kind: 'unknown'; tnf: number; type: string; payload: number[]; raw: NFCTagRecord };
+
+export type CardSignatureStatus = 'valid' | 'invalid' | 'missing' | 'unchecked';
+
+export interface TagDiagnostics {
+  success: boolean;
+  error?: string;
+  technologies: string[]; // Tech types as reported by the reader
+  technology?: CardTechnology;
+  uid?: string; // Raw UID as hex, before normalisation
+  ndefCapacity?: number; // Bytes available for the NDEF message
+  ndefUsedBytes: number;
+  isWritable?: boolean;
+  records: NdefRecord[];
+  cardId?: string; // The ID a scan would produce
+  cardIdError?: string; // Why a scan would reject the tag
+  signature: CardSignatureStatus;
+  timestamp: number;
+}
+
+export type SimulatedNFCEvent =
+  | { type: 'card'; cardId: string }
+  | { type: 'timeout' }
+  | { type: 'invalid' };
+
 export interface NFCManager {
   isEnabled: boolean;
   isScanning: boolean;
   lastScanResult?: NFCScanResult;
 }
 
+// Pre-departure card verification
+export type VerificationStatus = 'verified' | 'mismatch' | 'unreadable';
+
+export interface VerificationEntry {
+  status: VerificationStatus;
+  cardId?: string;
+  matchedPilgrimId?: string; // Who the card belongs to when it is not the expected pilgrim
+  error?: string;
+  timestamp: number;
+}
+
 // App state types
 export interface AppState {
   pilgrims: Pilgrim[];
   isLoading: boolean;
-  error: string | null;
+  error: ErrorState | null;
   nfc: NFCManager;
   selectedPilgrim: Pilgrim | null;
   scanningMode: 'idle' | 'onboard' | 'offboard';
   sessionStats: SessionStats;
+  settings: ScanSettings;
+  activeLegId: string | null; // Leg the scanner records boardings against
+  activeBusId: string | null; // Bus the scanner is working on
+  deviceId: string; // Generated once per install, recorded with every scan event
+  auth: AuthSession | null; // Signed-in operator, restored on app start
+  serverProfiles: ServerProfile[]; // Added on the device, the built-in profile is not stored
+  activeServerId: string;
+}
+
+export interface ScanSettings {
+  duplicateWindowMs: number; // Repeat reads of a card inside this window are duplicates, 0 turns it off
+  scanTimeoutMs: number; // How long a single scan waits for a tag, 0 waits until cancelled
 }
 
 export interface SessionStats {
   totalScanned: number;
   successfulScans: number;
   failedScans: number;
+  duplicateScans: number; // Repeat taps of a card that was just read, not counted in the totals
   onboardCount: number;
   offboardCount: number;
+  sessionId?: string; // Groups the scan events of one session
   startTime?: number;
   endTime?: number;
 }
@@ -104,12 +402,6 @@ export interface PocketBaseResponse<T> {
   items: T[];
 }
 
-export interface PocketBaseError {
-  code: number;
-  message: string;
-  data?: Record<string, any>;
-}
-
 // Search and filter types
 export interface SearchFilters {
   query: string;
@@ -168,13 +460,33 @@ export interface RippleAnimation {
 // Error types
 export type AppError = 
   | 'NETWORK_ERROR'
+  | 'REQUEST_CANCELLED'
   | 'NFC_NOT_SUPPORTED'
   | 'NFC_DISABLED'
+  | 'NFC_NOT_AVAILABLE_IN_EXPO_GO'
   | 'SCAN_TIMEOUT'
+  | 'SCAN_CANCELLED'
   | 'PILGRIM_NOT_FOUND'
   | 'ALREADY_ONBOARD'
+  | 'WRONG_BUS'
   | 'ALREADY_OFFBOARD'
   | 'INVALID_CARD'
+  | 'CARD_READ_FAILED'
+  | 'AMBIGUOUS_CARD'
+  | 'FORGED_CARD'
+  | 'SIGNING_KEY_MISSING'
+  | 'CARD_WRITE_FAILED'
+  | 'CARD_TOO_SMALL'
+  | 'NO_EMERGENCY_INFO'
+  | 'CARD_ALREADY_ASSIGNED'
+  | 'CARD_REVOKED'
+  | 'INVALID_CREDENTIALS'
+  | 'PERMISSION_DENIED'
+  | 'INVALID_SERVER_URL'
+  | 'SERVER_UNREACHABLE'
+  | 'SESSION_EXPIRED'
+  | 'NOT_FOUND'
+  | 'VALIDATION_ERROR'
   | 'SERVER_ERROR'
   | 'UNKNOWN_ERROR';
 
@@ -219,4 +531,23 @@ export const ANIMATION_DURATIONS = {
 } as const;
 
 export const NFC_SCAN_TIMEOUT = 5000;
-export const API_TIMEOUT = 10000;
\ No newline at end of file
+export const NFC_SCAN_TIMEOUT_OPTIONS = [5000, 10000, 30000, 0];
+export const DUPLICATE_SCAN_WINDOW = 3000;
+export const DUPLICATE_SCAN_WINDOW_OPTIONS = [0, 2000, 3000, 5000, 10000];
+export const API_TIMEOUT = 10000;
+export const BATCH_MAX_REQUESTS = 50; // PocketBase's default batch limit
+
+// Builds can point at staging or a local server through the environment
+export const DEFAULT_SERVER_PROFILE: ServerProfile = {
+  id: 'default',
+  name: 'الخادم الرئيسي',
+  url: process.env.EXPO_PUBLIC_POCKETBASE_URL || 'https://ahmedb.qb4.tech',
+};
+
+// Each role can do everything the one before it can
+export const ROLE_PERMISSIONS: Record<OperatorRole, Permission[]> = {
+  scanner: ['scan'],
+  group_leader: ['scan', 'override_status', 'assign_bus'],
+  supervisor: ['scan', 'override_status', 'assign_bus', 'manage_cards', 'edit_pilgrim', 'bulk_update'],
+  admin: ['scan', 'override_status', 'assign_bus', 'manage_cards', 'edit_pilgrim', 'bulk_update', 'delete_pilgrim'],
+};
\ No newline at end of file